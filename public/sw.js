@@ -0,0 +1,256 @@
+/* DPIP 通知發送紀錄 Service Worker：離線應用程式外殼、資料與台灣低縮放地圖圖磚快取 */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `dpip-shell-${VERSION}`;
+const DATA_CACHE = `dpip-data-${VERSION}`;
+const TILE_CACHE = `dpip-tiles-${VERSION}`;
+
+// 安裝時預先快取的應用程式外殼
+const SHELL_URLS = [
+  '/',
+  '/analytics',
+  '/lookup',
+  '/manifest.webmanifest',
+  '/region.json',
+  '/grid-matrix.json',
+  '/api/map/boundaries/town',
+  '/api/map/boundaries/county',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+];
+
+// 地區資料、網格矩陣（本機與 GitHub 來源）、鄉鎮界線、離線底圖界線與向量圖磚描述檔
+const DATA_URL_PATTERNS = [
+  /\/region\.json$/,
+  /\/grid-matrix\.json$/,
+  /\/town-boundaries\.json$/,
+  /\/api\/map\/boundaries\/(town|county)$/,
+  /\/tiles\.json$/,
+];
+
+const HISTORY_PATH = '/api/notify/history';
+
+// 圖磚快取：只保留台灣範圍內、縮放層級不超過 MAX_TILE_ZOOM 的圖磚，總大小不超過預算
+const MAX_TILE_ZOOM = 10;
+const TILE_CACHE_BUDGET = 30 * 1024 * 1024;
+const TILE_SIZE_HEADER = 'x-sw-tile-size';
+const TAIWAN_BOUNDS = { minLon: 118, maxLon: 123, minLat: 21, maxLat: 27 };
+const TILE_HOSTS = ['tile.openstreetmap.org', 'lb.exptech.dev'];
+const TILE_PATH_PATTERN = /\/(\d+)\/(\d+)\/(\d+)\.(png|pbf|mvt|jpg|webp)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => Promise.all(
+        // 個別快取，單一資源失敗不影響安裝
+        SHELL_URLS.map((url) => cache.add(url).catch((err) => console.warn('[sw] 無法預先快取', url, err)))
+      ))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const currentCaches = [SHELL_CACHE, DATA_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('dpip-') && !currentCaches.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// 將圖磚座標轉換為經緯度範圍
+function tileBounds(z, x, y) {
+  const n = Math.pow(2, z);
+  const lon = (tileX) => (tileX / n) * 360 - 180;
+  const lat = (tileY) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * tileY) / n))) * 180) / Math.PI;
+  return { minLon: lon(x), maxLon: lon(x + 1), minLat: lat(y + 1), maxLat: lat(y) };
+}
+
+function isCacheableTile(url) {
+  if (!TILE_HOSTS.includes(url.hostname)) return false;
+
+  const match = url.pathname.match(TILE_PATH_PATTERN);
+  if (!match) return false;
+
+  const [z, x, y] = match.slice(1, 4).map(Number);
+  if (z > MAX_TILE_ZOOM) return false;
+
+  const bounds = tileBounds(z, x, y);
+  return bounds.maxLon >= TAIWAN_BOUNDS.minLon &&
+         bounds.minLon <= TAIWAN_BOUNDS.maxLon &&
+         bounds.maxLat >= TAIWAN_BOUNDS.minLat &&
+         bounds.minLat <= TAIWAN_BOUNDS.maxLat;
+}
+
+// 超出預算時由最舊的圖磚開始刪除
+let trimScheduled = false;
+function scheduleTileTrim() {
+  if (trimScheduled) return;
+  trimScheduled = true;
+
+  setTimeout(async () => {
+    trimScheduled = false;
+    const cache = await caches.open(TILE_CACHE);
+    const requests = await cache.keys();
+    const sizes = await Promise.all(requests.map(async (request) => {
+      const response = await cache.match(request);
+      return Number(response?.headers.get(TILE_SIZE_HEADER) || 0);
+    }));
+
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+    for (let i = 0; i < requests.length && total > TILE_CACHE_BUDGET; i++) {
+      await cache.delete(requests[i]);
+      total -= sizes[i];
+    }
+  }, 5000);
+}
+
+async function handleTile(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const body = await response.clone().arrayBuffer();
+    const headers = new Headers(response.headers);
+    headers.set(TILE_SIZE_HEADER, String(body.byteLength));
+    await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+    scheduleTileTrim();
+  }
+  return response;
+}
+
+// 網路優先，失敗時回傳最後一次成功的回應
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    // 找不到完全相同的請求時，退回同路徑的最後一次回應（例如不同的查詢參數）
+    const cached = await cache.match(request) ||
+                   await cache.match(request, { ignoreSearch: true }) ||
+                   (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// 離線且沒有快取時的回應；respondWith 不可收到 undefined，否則頁面只會看到無法辨識的網路錯誤
+function offlineResponse() {
+  return new Response(JSON.stringify({ success: false, error: 'Offline' }), {
+    status: 503,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// 游標與時間範圍的查詢參數
+const HISTORY_RANGE_PARAMS = ['before', 'after'];
+
+function isHistoryFirstPage(url) {
+  return !HISTORY_RANGE_PARAMS.some((param) => url.searchParams.has(param));
+}
+
+// 通知歷史：網路優先，離線時游標與時間範圍的請求只接受完全相同的快取
+// 第一頁可退回其他 limit 的第一頁；否則回傳 503，讓前端停止往下分頁
+async function handleHistory(request) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    if (isHistoryFirstPage(new URL(request.url))) {
+      const firstPages = (await cache.keys(request, { ignoreSearch: true }))
+        .filter((key) => isHistoryFirstPage(new URL(key.url)));
+      if (firstPages.length > 0) {
+        const fallback = await cache.match(firstPages[firstPages.length - 1]);
+        if (fallback) return fallback;
+      }
+    }
+
+    console.warn('[sw] 離線且沒有對應的通知歷史快取', request.url, err);
+    return offlineResponse();
+  }
+}
+
+// 先回傳快取，同時於背景更新
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch((err) => {
+      if (cached) return cached;
+      console.warn('[sw] 離線且沒有快取', request.url, err);
+      return offlineResponse();
+    });
+
+  return cached || network;
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // 即時串流不經過快取
+  if (url.pathname.startsWith('/api/notify/stream')) return;
+
+  if (isCacheableTile(url)) {
+    event.respondWith(handleTile(request));
+    return;
+  }
+
+  if (DATA_URL_PATTERNS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(staleWhileRevalidate(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === HISTORY_PATH) {
+    event.respondWith(handleHistory(request));
+    return;
+  }
+
+  // Next.js 的靜態資源檔名含雜湊，可長期快取
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  }
+});
@@ -0,0 +1,168 @@
+/*
+ * 比較舊版網格查詢（字串鍵 Map + 浮點步進、線性搜尋最近點）與 GridIndex 的效能
+ *
+ * 用法：
+ *   bun scripts/benchmark-grid.ts                 # 從 NOTIFY_API_BASE_URL 取得 limit=all 的通知
+ *   bun scripts/benchmark-grid.ts history.json    # 使用已下載的通知歷史
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { NotificationGeometry, NotificationRecord } from '@/types/notify';
+import { getGeometryRings, normalizeNotificationRecords } from '@/utils/notificationNormalizer';
+import { createGridIndex } from '@/utils/gridIndex';
+
+const NOTIFY_API_BASE_URL = (process.env.NOTIFY_API_BASE_URL || 'https://api.exptech.dev').replace(/\/+$/, '');
+const ITERATIONS = 5;
+
+// ---- 舊版實作（僅供比較） ----
+
+function legacyBounds(coordinates: number[][][]) {
+  let minLon = Infinity, maxLon = -Infinity;
+  let minLat = Infinity, maxLat = -Infinity;
+  for (const ring of coordinates) {
+    for (const [lon, lat] of ring) {
+      minLon = Math.min(minLon, lon);
+      maxLon = Math.max(maxLon, lon);
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+    }
+  }
+  return { minLon, maxLon, minLat, maxLat };
+}
+
+function legacyPointInPolygon([x, y]: [number, number], polygon: number[][][]): boolean {
+  for (const ring of polygon) {
+    let inside = false;
+    let j = ring.length - 1;
+    for (let i = 0; i < ring.length; i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
+        inside = !inside;
+      }
+      j = i;
+    }
+    if (inside) return true;
+  }
+  return false;
+}
+
+function legacyTownsInPolygon(polygonCoords: number[][][], gridMatrix: Map<string, number>) {
+  const townCounts = new Map<number, number>();
+  const bounds = legacyBounds(polygonCoords);
+  const step = Math.max(0.05 * 2, (bounds.maxLon - bounds.minLon) / 25);
+
+  for (let lon = bounds.minLon; lon <= bounds.maxLon; lon += step) {
+    for (let lat = bounds.minLat; lat <= bounds.maxLat; lat += step) {
+      const townCode = gridMatrix.get(`${lon.toFixed(3)},${lat.toFixed(3)}`);
+      if (townCode && legacyPointInPolygon([lon, lat], polygonCoords)) {
+        townCounts.set(townCode, (townCounts.get(townCode) || 0) + 1);
+      }
+    }
+  }
+  return townCounts;
+}
+
+function legacyNearest(point: [number, number], gridMatrix: Map<string, number>): number | null {
+  let minDistance = Infinity;
+  let nearestTownCode: number | null = null;
+  for (const [key, townCode] of gridMatrix.entries()) {
+    const [lon, lat] = key.split(',').map(parseFloat);
+    const distance = Math.sqrt(Math.pow(lon - point[0], 2) + Math.pow(lat - point[1], 2));
+    if (distance < minDistance) {
+      minDistance = distance;
+      nearestTownCode = townCode;
+    }
+  }
+  return nearestTownCode;
+}
+
+// ---- 工具 ----
+
+function center(geometry: NotificationGeometry): [number, number] {
+  let lon = 0, lat = 0, count = 0;
+  for (const ring of getGeometryRings(geometry)) {
+    for (const point of ring) {
+      lon += point[0];
+      lat += point[1];
+      count++;
+    }
+  }
+  return [lon / count, lat / count];
+}
+
+function measure(label: string, fn: () => number): number {
+  fn(); // 暖身
+  const start = performance.now();
+  let result = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    result = fn();
+  }
+  const elapsed = (performance.now() - start) / ITERATIONS;
+  console.log(`  ${label.padEnd(28)} ${elapsed.toFixed(2).padStart(10)} ms  (${result})`);
+  return elapsed;
+}
+
+async function loadNotifications(file?: string): Promise<NotificationRecord[]> {
+  let raw: unknown;
+  if (file) {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } else {
+    const response = await fetch(`${NOTIFY_API_BASE_URL}/api/v2/notify/history?limit=all`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    raw = await response.json();
+  }
+
+  const records = Array.isArray(raw) ? raw : (raw as { records?: unknown[] }).records ?? [];
+  return normalizeNotificationRecords(records).records;
+}
+
+async function main() {
+  const gridData: Record<string, number> = JSON.parse(
+    readFileSync(join(process.cwd(), 'public', 'grid-matrix.json'), 'utf8')
+  );
+  const gridMatrix = new Map<string, number>(Object.entries(gridData));
+
+  const buildStart = performance.now();
+  const gridIndex = createGridIndex(gridMatrix);
+  console.log(`GridIndex 建立：${(performance.now() - buildStart).toFixed(2)} ms，${gridIndex.size} 個網格點`);
+
+  const notifications = await loadNotifications(process.argv[2]);
+  const geometries = notifications.flatMap(n => n.Polygons);
+  const centers = geometries.map(center);
+  console.log(`通知 ${notifications.length} 筆，多邊形 ${geometries.length} 個（每項平均 ${ITERATIONS} 次）\n`);
+
+  if (geometries.length === 0) {
+    console.log('沒有多邊形通知可供比較');
+    return;
+  }
+
+  console.log('多邊形內網格點（回傳值為無命中的多邊形數）');
+  const legacyPolygon = measure('舊版 Map + 浮點步進', () =>
+    geometries.filter(g => legacyTownsInPolygon(getGeometryRings(g), gridMatrix).size === 0).length
+  );
+  const indexPolygon = measure('GridIndex.townsInPolygon', () =>
+    geometries.filter(g => gridIndex.townsInPolygon(g).size === 0).length
+  );
+
+  console.log('\n最近網格點（回傳值為與舊版結果不同的數量）');
+  const legacyResults = centers.map(c => legacyNearest(c, gridMatrix));
+  const legacyNearestTime = measure('舊版線性搜尋', () =>
+    centers.filter(c => legacyNearest(c, gridMatrix) === null).length
+  );
+  const indexNearestTime = measure('GridIndex.nearest', () =>
+    centers.filter((c, i) => gridIndex.nearest(c[0], c[1]) !== legacyResults[i]).length
+  );
+
+  console.log('\n加速倍數');
+  console.log(`  多邊形內網格點 ${(legacyPolygon / indexPolygon).toFixed(1)}x`);
+  console.log(`  最近網格點     ${(legacyNearestTime / indexNearestTime).toFixed(1)}x`);
+}
+
+main().catch(err => {
+  console.error('效能測試失敗:', err);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/*
+ * 由 taiwan-atlas 的鄉鎮界線（TopoJSON）產生 public/town-boundaries.json
+ * 只保留鄉鎮圖層，屬性改為 region.json 的地區代碼與名稱，供精確比對模式使用
+ * 同時產生 src/config/town-bounds.json，供地圖聚焦代碼通知
+ *
+ * 用法：bun scripts/generate-town-boundaries.ts
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { RegionData } from '@/hooks/useRegionData';
+import { createTownBoundsTable, TownBoundaryTopology } from '@/utils/townBoundaries';
+
+interface AtlasTownProperties {
+  COUNTYNAME: string;
+  TOWNNAME: string;
+}
+
+// taiwan-atlas 部分縣市使用「台」，region.json 使用「臺」
+function normalizeName(name: string): string {
+  return name.replace(/台/g, '臺');
+}
+
+const root = process.cwd();
+const atlas: Topology<{ towns: GeometryCollection<AtlasTownProperties> }> = JSON.parse(
+  readFileSync(join(root, 'node_modules', 'taiwan-atlas', 'towns-10t.json'), 'utf8')
+);
+const regionData: RegionData = JSON.parse(readFileSync(join(root, 'public', 'region.json'), 'utf8'));
+
+const codeByName = new Map<string, { code: number; name: string }>();
+for (const [city, districts] of Object.entries(regionData)) {
+  for (const [district, data] of Object.entries(districts)) {
+    codeByName.set(normalizeName(`${city}${district}`), { code: data.code, name: `${city}${district}` });
+  }
+}
+
+const unmatched: string[] = [];
+const geometries = atlas.objects.towns.geometries.flatMap(geometry => {
+  const { COUNTYNAME, TOWNNAME } = geometry.properties as AtlasTownProperties;
+  const region = codeByName.get(normalizeName(`${COUNTYNAME}${TOWNNAME}`));
+  if (!region) {
+    unmatched.push(`${COUNTYNAME}${TOWNNAME}`);
+    return [];
+  }
+  return [{ ...geometry, properties: region }];
+});
+
+if (unmatched.length > 0) {
+  console.warn(`⚠️ ${unmatched.length} 個鄉鎮無法對應 region.json：${unmatched.join('、')}`);
+}
+
+const output = {
+  type: 'Topology',
+  transform: atlas.transform,
+  arcs: atlas.arcs,
+  objects: {
+    towns: { type: 'GeometryCollection', geometries }
+  }
+};
+
+const outputPath = join(root, 'public', 'town-boundaries.json');
+writeFileSync(outputPath, JSON.stringify(output));
+console.log(`✅ 已輸出 ${geometries.length} 個鄉鎮界線至 ${outputPath}`);
+
+const boundsTable = createTownBoundsTable(output as TownBoundaryTopology, regionData);
+const boundsPath = join(root, 'src', 'config', 'town-bounds.json');
+// 每個鄉鎮一行，方便檢視差異
+const boundsLines = Object.entries(boundsTable).map(([code, bounds]) => `  "${code}": ${JSON.stringify(bounds)}`);
+writeFileSync(boundsPath, `{\n${boundsLines.join(',\n')}\n}\n`);
+console.log(`✅ 已輸出 ${Object.keys(boundsTable).length} 個鄉鎮外框至 ${boundsPath}`);
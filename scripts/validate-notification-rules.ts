@@ -0,0 +1,76 @@
+/*
+ * 驗證通知分類規則檔（src/config/notification-rules.json）
+ *
+ * 1. 檢查規則檔格式（版本、類型、contains/regex、顏色、嚴重程度）
+ * 2. 檢查每條規則的 examples 是否被整組規則分類為該規則的類型
+ * 3. 列出通知歷史中沒有任何規則符合的標題
+ *
+ * 用法：
+ *   bun scripts/validate-notification-rules.ts                 # 從 NOTIFY_API_BASE_URL 取得 limit=all 的通知
+ *   bun scripts/validate-notification-rules.ts history.json    # 使用已下載的通知歷史
+ *   bun scripts/validate-notification-rules.ts --no-history    # 只檢查規則檔與範例
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { NotificationRecord } from '@/types/notify';
+import { normalizeNotificationRecords } from '@/utils/notificationNormalizer';
+import {
+  checkRuleExamples,
+  createClassifier,
+  getUnclassifiedTitles,
+  validateClassificationRules
+} from '@/utils/notificationCategory';
+
+const NOTIFY_API_BASE_URL = (process.env.NOTIFY_API_BASE_URL || 'https://api.exptech.dev').replace(/\/+$/, '');
+const RULES_PATH = join(process.cwd(), 'src', 'config', 'notification-rules.json');
+
+async function loadNotifications(file?: string): Promise<NotificationRecord[]> {
+  let raw: unknown;
+  if (file) {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } else {
+    const response = await fetch(`${NOTIFY_API_BASE_URL}/api/v2/notify/history?limit=all`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    raw = await response.json();
+  }
+
+  const records = Array.isArray(raw) ? raw : (raw as { records?: unknown[] }).records ?? [];
+  return normalizeNotificationRecords(records).records;
+}
+
+async function main() {
+  // 直接讀取檔案而非使用模組內已載入的規則，確保檢查的是磁碟上的最新內容
+  const { ruleSet, errors } = validateClassificationRules(JSON.parse(readFileSync(RULES_PATH, 'utf8')));
+  console.log(`規則檔版本 ${ruleSet.version}，${ruleSet.rules.length} 條有效規則`);
+
+  if (errors.length > 0) {
+    console.error(`\n格式錯誤（${errors.length}）：`);
+    errors.forEach(error => console.error(`  ${error}`));
+  }
+
+  const exampleCount = ruleSet.rules.reduce((sum, rule) => sum + (rule.examples?.length ?? 0), 0);
+  const failures = checkRuleExamples(ruleSet);
+  console.log(`範例 ${exampleCount} 個，失敗 ${failures.length} 個`);
+  failures.forEach(failure => console.error(`  ${failure}`));
+
+  if (errors.length > 0 || failures.length > 0) {
+    process.exit(1);
+  }
+
+  const arg = process.argv[2];
+  if (arg === '--no-history') return;
+
+  const notifications = await loadNotifications(arg);
+  const unmatched = getUnclassifiedTitles(notifications, createClassifier(ruleSet));
+  const unmatchedTotal = unmatched.reduce((sum, { count }) => sum + count, 0);
+  console.log(`\n通知 ${notifications.length} 筆，未分類 ${unmatchedTotal} 筆（${unmatched.length} 種標題）`);
+  unmatched.forEach(({ title, count }) => console.log(`  ${String(count).padStart(6)}  ${title}`));
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
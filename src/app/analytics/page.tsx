@@ -9,10 +9,23 @@ import { Badge } from '@/components/ui/badge';
 import Link from 'next/link';
 import { ArrowLeft, Filter, X, ChevronRight } from 'lucide-react';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { useRegionData } from '@/hooks/useRegionData';
+import { useDataContext } from '@/contexts/DataContext';
 import { TimeFilterComponent, useTimeFilter } from '@/components/TimeFilter';
+import { RegionMatchFilterComponent, useRegionMatchFilter } from '@/components/RegionMatchFilter';
+import { CategoryFilterComponent, useCategoryFilter } from '@/components/CategoryFilter';
 import { useFilteredNotifications } from '@/hooks/useFilteredNotifications';
 import { filterNotificationsByRegionName } from '@/utils/regionMatcher';
+import {
+  classifyNotification,
+  getUnclassifiedTitles,
+  NOTIFICATION_CATEGORY_STYLES,
+  NOTIFICATION_SEVERITIES,
+  NotificationCategory
+} from '@/utils/notificationCategory';
+import { NOTIFICATION_SEVERITY_LABELS } from '@/utils/notificationPalette';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import { PaletteToggle } from '@/components/palette-toggle';
+import { NotificationCategoryBadge } from '@/components/NotificationCategoryBadge';
 
 // RegionData interface is now imported from the hook
 // RegionStructure is replaced by the RegionData type from the hook
@@ -24,7 +37,7 @@ interface AnalyticsData {
     code: number;
     name: string;
     count: number;
-    types: { [type: string]: number };
+    types: { [type: string]: number }; // 以通知類型為鍵
     criticalCount: number;
     districts?: string[];
   })[];
@@ -33,32 +46,6 @@ interface AnalyticsData {
   typeDistribution: { [type: string]: number };
 }
 
-
-// 通知類型提取函數（保留用於統計）
-
-function extractNotificationType(title: string): string {
-  if (title.includes('淹水感測')) return '📐 防災資訊(淹水感測)';
-  if (title.includes('短時強降雨紀錄')) return '🌧️ 防災資訊(短時強降雨紀錄)';
-  if (title.includes('天氣特報')) return '📊 天氣特報';
-  if (title.includes('雷雨即時訊息')) return '⛈️ 雷雨即時訊息';
-  if (title.includes('河川水位-警戒')) return '🚨 防災資訊(河川水位-警戒)';
-  if (title.includes('道路封閉')) return '🚙 防災資訊(道路封閉)';
-  if (title.includes('土石流紅色警戒')) return '🚨 防災資訊(土石流紅色警戒)';
-  if (title.includes('土石流黃色警戒')) return '⚠️ 防災資訊(土石流黃色警戒)';
-  if (title.includes('短時極端降雨紀錄')) return '🌧️ 防災資訊(短時極端降雨紀錄)';
-  if (title.includes('河川水位-注意')) return '⚠️ 防災資訊(河川水位-注意)';
-  if (title.includes('停班停課')) return '🏫 防災資訊(停班停課)';
-  if (title.includes('小區域有感地震')) return '🔔 地震報告 [小區域有感地震]';
-  if (title.includes('🔔 地震報告 ')) return '🔔 地震報告 [編號]';
-  if (title.includes('強震監視器')) return '📡 強震監視器';
-  if (title.includes('震度速報')) return '📨 震度速報';
-  if (title.includes('山區暴雨')) return '⛈️ 山區暴雨';
-  if (title.includes('⚠️ 地震速報')) return '⚠️ 地震速報';
-  if (title.includes('🌊 海嘯消息')) return '🌊 海嘯消息';
-  console.log(title);
-  return '其他';
-}
-
 function AnalyticsContent() {
   // 使用統一的時間篩選 hook
   const {
@@ -71,24 +58,32 @@ function AnalyticsContent() {
     handleApplyTimeSlot
   } = useTimeFilter();
   
+  const { regionMatchOptions, handleRegionMatchOptionsChange } = useRegionMatchFilter();
+  const { categoryFilter, handleCategoryFilterChange } = useCategoryFilter();
+  
   const [currentRegionFilter, setCurrentRegionFilter] = useState<string | null>(null);
+  const regionSelection = useMemo(
+    () => currentRegionFilter ? { regions: [currentRegionFilter], area: null } : null,
+    [currentRegionFilter]
+  );
   
   // 使用統一的數據處理hook，並傳入地區篩選參數
   const { 
     finalNotifications: filteredNotifications,
-    timeFilteredNotifications,
+    categoryFilteredNotifications,
     loading, 
     error 
-  } = useFilteredNotifications(currentRegionFilter);
+  } = useFilteredNotifications(regionSelection);
   
-  // Use the shared region data hook
-  const { regionData, gridMatrix } = useRegionData();
+  // 地區資料與 Worker 計算的地區匹配結果
+  const { regionData, regionMatches, precomputeProgress } = useDataContext();
   const [viewMode, setViewMode] = useState<ViewMode>('city');
   const [selectedCity, setSelectedCity] = useState<string | null>(null);
   const [selectedDistrict, setSelectedDistrict] = useState<string | null>(null);
   const { limitSetting, updateLimit } = useLimitSync();
   
   const router = useRouter();
+  const { colors: paletteColors } = usePaletteContext();
   
   // 建構首頁的 URL，保留時間篩選和數量參數
   const homeUrl = useMemo(() => {
@@ -108,8 +103,24 @@ function AnalyticsContent() {
       params.set('limit', limitSetting.toString());
     }
     
+    // 保留地區篩選語意
+    if (regionMatchOptions.semantics !== 'primary') {
+      params.set('match', regionMatchOptions.semantics);
+      if (regionMatchOptions.semantics === 'threshold') {
+        params.set('threshold', regionMatchOptions.threshold.toString());
+      }
+    }
+    
+    // 保留類型與緊急程度篩選
+    if (categoryFilter.categories.length > 0) {
+      params.set('category', categoryFilter.categories.join(','));
+    }
+    if (categoryFilter.criticalOnly) {
+      params.set('critical', '1');
+    }
+    
     return params.toString() ? `/?${params.toString()}` : '/';
-  }, [timeFilter, startDate, endDate, limitSetting]);
+  }, [timeFilter, startDate, endDate, limitSetting, regionMatchOptions, categoryFilter]);
 
   // 緩存基本統計數據
   const basicStats = useMemo(() => {
@@ -117,7 +128,7 @@ function AnalyticsContent() {
     let criticalCount = 0;
 
     filteredNotifications.forEach(notification => {
-      const notificationType = extractNotificationType(notification.title);
+      const notificationType = classifyNotification(notification);
       typeDistribution[notificationType] = (typeDistribution[notificationType] || 0) + 1;
       if (notification.critical) {
         criticalCount++;
@@ -127,9 +138,15 @@ function AnalyticsContent() {
     return { typeDistribution, criticalCount };
   }, [filteredNotifications]);
 
+  // 沒有任何分類規則符合的標題，提示需要更新規則檔
+  const unclassifiedTitles = useMemo(
+    () => getUnclassifiedTitles(filteredNotifications),
+    [filteredNotifications]
+  );
+
   // 緩存縣市統計數據
   const cityStats = useMemo(() => {
-    if (!regionData || !gridMatrix || currentRegionFilter) {
+    if (!regionData || currentRegionFilter) {
       return new Map();
     }
 
@@ -159,17 +176,18 @@ function AnalyticsContent() {
     regionsToProcess.forEach(region => {
       // 獲取該地區的通知
       const regionNotifications = filterNotificationsByRegionName(
-        timeFilteredNotifications, 
+        categoryFilteredNotifications, 
         region, 
-        regionData, 
-        gridMatrix
+        regionData,
+        regionMatches,
+        regionMatchOptions
       );
       
       const regionTypeDistribution: { [type: string]: number } = {};
       let regionCriticalCount = 0;
       
       regionNotifications.forEach(notification => {
-        const notificationType = extractNotificationType(notification.title);
+        const notificationType = classifyNotification(notification);
         regionTypeDistribution[notificationType] = (regionTypeDistribution[notificationType] || 0) + 1;
         if (notification.critical) {
           regionCriticalCount++;
@@ -185,10 +203,10 @@ function AnalyticsContent() {
     });
 
     return cityStatsMap;
-  }, [regionData, gridMatrix, timeFilteredNotifications, currentRegionFilter]);
+  }, [regionData, regionMatches, regionMatchOptions, categoryFilteredNotifications, currentRegionFilter]);
 
   const analyticsData = useMemo((): AnalyticsData => {
-    if (!regionData || !gridMatrix) {
+    if (!regionData) {
       return {
         regionStats: [],
         totalNotifications: 0,
@@ -252,17 +270,18 @@ function AnalyticsContent() {
           Object.keys(regionData[currentRegionFilter] || {}).forEach(district => {
             const fullDistrictName = `${currentRegionFilter}${district}`;
             const districtNotifications = filterNotificationsByRegionName(
-              timeFilteredNotifications,
+              categoryFilteredNotifications,
               fullDistrictName,
               regionData,
-              gridMatrix
+              regionMatches,
+              regionMatchOptions
             );
             
             const districtTypeDistribution: { [type: string]: number } = {};
             let districtCriticalCount = 0;
             
             districtNotifications.forEach(notification => {
-              const notificationType = extractNotificationType(notification.title);
+              const notificationType = classifyNotification(notification);
               districtTypeDistribution[notificationType] = (districtTypeDistribution[notificationType] || 0) + 1;
               if (notification.critical) {
                 districtCriticalCount++;
@@ -332,14 +351,15 @@ function AnalyticsContent() {
       criticalNotifications: basicStats.criticalCount,
       typeDistribution: basicStats.typeDistribution
     };
-  }, [regionData, gridMatrix, filteredNotifications, viewMode, currentRegionFilter, cityStats, basicStats, timeFilteredNotifications]);
+  }, [regionData, regionMatches, regionMatchOptions, filteredNotifications, viewMode, currentRegionFilter, cityStats, basicStats, categoryFilteredNotifications]);
 
   if (loading) {
     return (
       <LoadingSpinner 
         fullScreen 
         message="載入分析資料中..." 
-        description="正在處理通知統計" 
+        description={precomputeProgress ? '正在計算通知的地區對應' : '正在處理通知統計'}
+        progress={precomputeProgress}
       />
     );
   }
@@ -393,6 +413,7 @@ function AnalyticsContent() {
               </div>
             )}
           </div>
+          <PaletteToggle />
         </div>
         <div className="flex flex-wrap gap-2">
           <div className="flex gap-1 bg-muted rounded-lg p-1">
@@ -431,6 +452,18 @@ function AnalyticsContent() {
             />
           </div>
           
+          <RegionMatchFilterComponent
+            options={regionMatchOptions}
+            onChange={handleRegionMatchOptionsChange}
+            compact={true}
+          />
+          
+          <CategoryFilterComponent
+            filter={categoryFilter}
+            onChange={handleCategoryFilterChange}
+            compact={true}
+          />
+          
           <div className="flex gap-1 bg-muted rounded-lg p-1">
             <Button
               variant={limitSetting === 100 ? 'default' : 'ghost'}
@@ -537,48 +570,86 @@ function AnalyticsContent() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-3">
-              {(() => {
-                const distributionToShow = viewMode === 'city' 
-                  ? analyticsData.typeDistribution 
-                  : selectedCity === '全部(不指定地區的全部用戶廣播通知)'
-                    ? analyticsData.typeDistribution  // 直接使用全國廣播的類型分布
-                    : analyticsData.regionStats.reduce((acc, region) => {
-                        Object.entries(region.types).forEach(([type, count]) => {
-                          acc[type] = (acc[type] || 0) + count;
-                        });
-                        return acc;
-                      }, {} as { [type: string]: number });
-                
-                
-                return Object.entries(distributionToShow);
-              })()
+            {(() => {
+              const distributionToShow = viewMode === 'city' 
+                ? analyticsData.typeDistribution 
+                : selectedCity === '全部(不指定地區的全部用戶廣播通知)'
+                  ? analyticsData.typeDistribution  // 直接使用全國廣播的類型分布
+                  : analyticsData.regionStats.reduce((acc, region) => {
+                      Object.entries(region.types).forEach(([type, count]) => {
+                        acc[type] = (acc[type] || 0) + count;
+                      });
+                      return acc;
+                    }, {} as { [type: string]: number });
+
+              // 鍵皆由 classifyNotification 產生
+              const entries = (Object.entries(distributionToShow) as Array<[NotificationCategory, number]>)
                 .filter(([, count]) => count > 0)
-                .sort(([,a], [,b]) => b - a)
-                .map(([type, count]) => {
-                  const totalForPercent = viewMode === 'city' 
-                    ? analyticsData.totalNotifications 
-                    : analyticsData.totalNotifications; // 使用當前選中地區的總數
-                  
-                  const percentage = totalForPercent > 0 ? Math.round((count / totalForPercent) * 100) : 0;
-                  
-                  if (percentage === 0 && count > 0) {
-                    console.warn(`類型分布顯示異常: "${type}": count=${count}, totalForPercent=${totalForPercent}, percentage=${percentage}%`);
-                  }
-                  
-                  return (
-                    <div key={type} className="flex justify-between items-center">
-                      <div className="flex items-center gap-2">
-                        <Badge variant="outline">{type}</Badge>
-                        <span className="text-sm text-muted-foreground">
-                          {percentage}%
-                        </span>
+                .sort(([,a], [,b]) => b - a);
+              const totalForPercent = analyticsData.totalNotifications;
+
+              // 依類型設定的嚴重程度彙總
+              const severityCounts = NOTIFICATION_SEVERITIES.map(severity => ({
+                severity,
+                count: entries
+                  .filter(([type]) => NOTIFICATION_CATEGORY_STYLES[type].severity === severity)
+                  .reduce((sum, [, count]) => sum + count, 0)
+              }));
+              const severityTotal = severityCounts.reduce((sum, { count }) => sum + count, 0);
+
+              return (
+                <div className="space-y-3">
+                  {severityTotal > 0 && (
+                    <div className="space-y-1.5">
+                      <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+                        {severityCounts.filter(({ count }) => count > 0).map(({ severity, count }) => (
+                          <div
+                            key={severity}
+                            style={{ width: `${(count / severityTotal) * 100}%`, backgroundColor: paletteColors.severity[severity] }}
+                            title={`${NOTIFICATION_SEVERITY_LABELS[severity]} ${count}`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                        {severityCounts.map(({ severity, count }) => (
+                          <span key={severity} className="flex items-center gap-1">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: paletteColors.severity[severity] }} />
+                            {NOTIFICATION_SEVERITY_LABELS[severity]} {count}
+                          </span>
+                        ))}
                       </div>
-                      <span className="font-medium">{count}</span>
                     </div>
-                  );
-                })}
-            </div>
+                  )}
+                  {entries.map(([type, count]) => {
+                    const percentage = totalForPercent > 0 ? Math.round((count / totalForPercent) * 100) : 0;
+                    
+                    if (percentage === 0 && count > 0) {
+                      console.warn(`類型分布顯示異常: "${type}": count=${count}, totalForPercent=${totalForPercent}, percentage=${percentage}%`);
+                    }
+                    
+                    return (
+                      <div key={type} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                          <div className="flex items-center gap-2">
+                            <NotificationCategoryBadge category={type} />
+                            <span className="text-sm text-muted-foreground">
+                              {percentage}%
+                            </span>
+                          </div>
+                          <span className="font-medium">{count}</span>
+                        </div>
+                        <div className="h-1 rounded-full bg-muted">
+                          <div
+                            className="h-1 rounded-full"
+                            style={{ width: `${percentage}%`, backgroundColor: paletteColors.category[type] }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })()}
           </CardContent>
         </Card>
 
@@ -619,6 +690,27 @@ function AnalyticsContent() {
         )}
       </div>
 
+      {unclassifiedTitles.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>未分類通知</CardTitle>
+            <CardDescription>
+              以下標題沒有符合任何分類規則，已歸入「其他」，請更新 src/config/notification-rules.json
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {unclassifiedTitles.slice(0, 20).map(({ title, count }) => (
+                <div key={title} className="flex justify-between items-center gap-4">
+                  <span className="text-sm truncate">{title}</span>
+                  <span className="font-medium">{count}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {!(viewMode === 'district' && selectedCity === '全部(不指定地區的全部用戶廣播通知)') && (
         <Card>
           <CardHeader>
@@ -692,12 +784,12 @@ function AnalyticsContent() {
                   </div>
                 </div>
                 <div className="flex flex-wrap gap-2 items-center">
-                  {Object.entries(region.types)
+                  {(Object.entries(region.types) as Array<[NotificationCategory, number]>)
                     .filter(([, count]) => count > 0)
                     .map(([type, count]) => (
-                      <Badge key={type} variant="secondary">
-                        {type}: {count}
-                      </Badge>
+                      <NotificationCategoryBadge key={type} category={type}>
+                        : {count}
+                      </NotificationCategoryBadge>
                     ))}
                   {Object.keys(region.types).length === 0 && (
                     <span className="text-xs text-muted-foreground">無類型數據</span>
@@ -757,7 +849,7 @@ function AnalyticsContent() {
                     
                     <h4 className="font-medium mb-3">通知類型分布</h4>
                     <div className="space-y-2">
-                      {Object.entries(region.types)
+                      {(Object.entries(region.types) as Array<[NotificationCategory, number]>)
                         .filter(([, count]) => count > 0)
                         .sort(([,a], [,b]) => b - a)
                         .map(([type, count]) => {
@@ -765,7 +857,7 @@ function AnalyticsContent() {
                           return (
                             <div key={type} className="flex justify-between items-center">
                               <div className="flex items-center gap-2">
-                                <Badge variant="outline" className="text-xs">{type}</Badge>
+                                <NotificationCategoryBadge category={type} className="text-xs" />
                                 <span className="text-xs text-muted-foreground">{percentage}%</span>
                               </div>
                               <span className="text-sm font-medium">{count}</span>
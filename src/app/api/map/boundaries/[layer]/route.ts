@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { loadBoundaryFeatureCollections } from '@/lib/map-boundaries';
+import type { BoundaryFeatureCollections } from '@/utils/townBoundaries';
+
+// 建置時即產生靜態檔案，離線底圖不需連線到外部服務
+export const dynamic = 'force-static';
+
+type BoundaryLayer = keyof BoundaryFeatureCollections;
+
+const BOUNDARY_LAYERS: BoundaryLayer[] = ['town', 'county'];
+
+export function generateStaticParams() {
+  return BOUNDARY_LAYERS.map(layer => ({ layer }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ layer: string }> }) {
+  const { layer } = await params;
+
+  if (!BOUNDARY_LAYERS.includes(layer as BoundaryLayer)) {
+    return NextResponse.json(
+      { success: false, error: 'Unknown boundary layer' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const boundaries = await loadBoundaryFeatureCollections();
+    return NextResponse.json(boundaries[layer as BoundaryLayer], {
+      headers: {
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (err) {
+    console.error('Failed to load map boundaries:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Failed to load map boundaries' },
+      { status: 500 }
+    );
+  }
+}
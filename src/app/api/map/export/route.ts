@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotifyHistoryPage } from '@/lib/notify-history';
+import { loadBoundaryFeatureCollections, loadRegionData, loadTownBoundaryIndex } from '@/lib/map-boundaries';
+import type { MapTheme } from '@/lib/map-style';
+import { NotificationRecord } from '@/types/notify';
+import { normalizeNotificationRecords } from '@/utils/notificationNormalizer';
+import { getNotificationColors, isColorPalette, PALETTE_COLORS } from '@/utils/notificationPalette';
+import { getTownDirectory } from '@/utils/regionMatcher';
+import {
+  createMapExportCaption,
+  createMapExportSvg,
+  DEFAULT_MAP_EXPORT_SIZE,
+  getMapExportAttribution,
+  getMapExportFilename,
+  getMapExportTownNames,
+  isMapExportFormat,
+  MAX_MAP_EXPORT_SCALE
+} from '@/utils/mapExport';
+
+export const dynamic = 'force-dynamic';
+
+// 地圖區域的大小限制（像素）
+const MIN_EXPORT_SIZE = 200;
+const MAX_EXPORT_SIZE = 4000;
+
+// 解析正整數參數，未提供時使用預設值，超出範圍時回傳 null
+function parseInteger(value: string | null, fallback: number, min: number, max: number): number | null {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null;
+}
+
+// 通知識別碼為 "<timestamp>-<hash>"，只需取得該毫秒的通知
+async function findNotification(id: string): Promise<NotificationRecord | null> {
+  const timestamp = Number(id.split('-')[0]);
+  if (!Number.isInteger(timestamp) || timestamp <= 0) return null;
+
+  const { data } = await getNotifyHistoryPage({ limit: 'all', after: timestamp, before: timestamp + 1 });
+  return normalizeNotificationRecords(data.records).records.find(record => record.id === id) ?? null;
+}
+
+// 不經過瀏覽器產生通知地圖，供報告腳本使用：
+// /api/map/export?id=<通知識別碼>&format=png|svg&width=&height=&scale=&theme=light|dark&palette=standard|accessible
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get('id');
+  const format = searchParams.get('format') ?? 'png';
+  const width = parseInteger(searchParams.get('width'), DEFAULT_MAP_EXPORT_SIZE.width, MIN_EXPORT_SIZE, MAX_EXPORT_SIZE);
+  const height = parseInteger(searchParams.get('height'), DEFAULT_MAP_EXPORT_SIZE.height, MIN_EXPORT_SIZE, MAX_EXPORT_SIZE);
+  const scale = parseInteger(searchParams.get('scale'), 1, 1, MAX_MAP_EXPORT_SCALE);
+  const theme: MapTheme = searchParams.get('theme') === 'dark' ? 'dark' : 'light';
+  const paletteParam = searchParams.get('palette');
+  const palette = paletteParam && isColorPalette(paletteParam) ? paletteParam : 'standard';
+
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: 'Missing id parameter' },
+      { status: 400 }
+    );
+  }
+
+  if (!isMapExportFormat(format) || width === null || height === null || scale === null) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid format, width, height or scale parameter' },
+      { status: 400 }
+    );
+  }
+
+  let notification: NotificationRecord | null;
+  try {
+    notification = await findNotification(id);
+  } catch (err) {
+    console.error('Failed to load notification for export:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Upstream request failed' },
+      { status: 502 }
+    );
+  }
+
+  if (!notification) {
+    return NextResponse.json(
+      { success: false, error: 'Notification not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const [boundaries, regionData, townIndex] = await Promise.all([
+      loadBoundaryFeatureCollections(),
+      loadRegionData(),
+      loadTownBoundaryIndex()
+    ]);
+
+    // 影響鄉鎮：直接指定的代碼，加上與多邊形實際重疊的鄉鎮
+    const polygonCodes = notification.Polygons.flatMap(geometry =>
+      townIndex.intersect(geometry).towns.map(town => town.code)
+    );
+    const towns = getMapExportTownNames([...notification.codes, ...polygonCodes], getTownDirectory(regionData));
+
+    const colors = getNotificationColors(notification, palette);
+    const svg = createMapExportSvg({
+      notification,
+      colors,
+      lineWidth: PALETTE_COLORS[palette].lineWidth,
+      theme,
+      towns: boundaries.town,
+      counties: boundaries.county,
+      caption: createMapExportCaption(notification, colors, towns, getMapExportAttribution('boundaries')),
+      width,
+      height,
+      scale
+    });
+
+    const headers = {
+      'Content-Disposition': `inline; filename="${getMapExportFilename(notification, format)}"`,
+      'Cache-Control': 'public, max-age=3600',
+    };
+
+    if (format === 'svg') {
+      return new NextResponse(svg, {
+        headers: { ...headers, 'Content-Type': 'image/svg+xml; charset=utf-8' },
+      });
+    }
+
+    // 文字需要伺服器安裝中文字型（例如 Noto Sans CJK TC）才能正確繪製
+    const { default: sharp } = await import('sharp');
+    const png = await sharp(Buffer.from(svg)).png().toBuffer();
+    return new NextResponse(new Uint8Array(png), {
+      headers: { ...headers, 'Content-Type': 'image/png' },
+    });
+  } catch (err) {
+    console.error('Failed to export notification map:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Failed to export map' },
+      { status: 500 }
+    );
+  }
+}
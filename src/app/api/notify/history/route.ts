@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotifyHistoryPage } from '@/lib/notify-history';
+
+export const dynamic = 'force-dynamic';
+
+// 解析 limit 參數，僅接受正整數或 'all'
+function parseLimit(value: string | null): string | null {
+  if (!value) return '100';
+  if (value === 'all') return 'all';
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit <= 0) return null;
+  return limit.toString();
+}
+
+// 解析游標參數（毫秒時間戳），未提供時回傳 undefined，格式錯誤時回傳 null
+function parseCursor(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const cursor = Number(value);
+  return isFinite(cursor) && cursor > 0 ? cursor : null;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const limit = parseLimit(searchParams.get('limit'));
+  const before = parseCursor(searchParams.get('before'));
+  const after = parseCursor(searchParams.get('after'));
+
+  if (!limit) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid limit parameter' },
+      { status: 400 }
+    );
+  }
+
+  if (before === null || after === null) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid before/after parameter' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data, cacheStatus, fetchedAt } = await getNotifyHistoryPage({ limit, before, after });
+
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'X-Cache': cacheStatus,
+        'X-Fetched-At': new Date(fetchedAt).toISOString(),
+      },
+    });
+  } catch (err) {
+    console.error('Failed to proxy notify history:', err);
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : 'Upstream request failed' },
+      { status: 502 }
+    );
+  }
+}
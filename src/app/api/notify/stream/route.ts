@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import { getNotifyHistory, getNotifyHistoryPage } from '@/lib/notify-history';
+import { RawNotificationRecord } from '@/types/notify';
+
+export const dynamic = 'force-dynamic';
+
+// 輪詢上游的間隔（秒）與每次取回的筆數
+const STREAM_INTERVAL = Number(process.env.NOTIFY_STREAM_INTERVAL ?? 15) * 1000;
+const STREAM_FETCH_LIMIT = 50;
+
+// 同一毫秒的通知以內容區分，用於判斷是否已推送
+function getRecordKey(record: RawNotificationRecord): string {
+  return JSON.stringify([record.title, record.body, record.codes, record.Polygons]);
+}
+
+// 以 Server-Sent Events 推送新通知，透過 Last-Event-ID 在重新連線時接續
+export async function GET(request: NextRequest) {
+  const sinceParam = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('since');
+  let lastTimestamp = sinceParam ? parseInt(sinceParam, 10) : NaN;
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+        }
+      };
+
+      // 與 lastTimestamp 同一毫秒且已推送的通知
+      // 為 null 時（例如以 Last-Event-ID 接續）不確定已推送哪些，同一毫秒的通知全部重送，由前端以識別碼去重
+      let sentAtLast: Set<string> | null = null;
+      let polling = false;
+
+      const isUnsent = (record: RawNotificationRecord) =>
+        record.timestamp > lastTimestamp ||
+        (record.timestamp === lastTimestamp && !sentAtLast?.has(getRecordKey(record)));
+
+      const poll = async () => {
+        // 補齊歷史可能較慢，避免與下一次輪詢重疊
+        if (polling) return;
+        polling = true;
+
+        try {
+          let { records } = (await getNotifyHistory(String(STREAM_FETCH_LIMIT))).data;
+
+          // 未指定起點時，以目前最新一筆作為基準，只推送之後的通知
+          if (isNaN(lastTimestamp)) {
+            const latest = records.reduce((max, record) => Math.max(max, record.timestamp), 0);
+            lastTimestamp = latest;
+            sentAtLast = new Set(records.filter(record => record.timestamp === latest).map(getRecordKey));
+            send(': ready\n\n');
+            return;
+          }
+
+          // 整批都比基準新時（休眠後接續或短時間大量發送），中間可能還有通知，改由完整歷史補齊
+          const oldest = records.reduce((min, record) => Math.min(min, record.timestamp), Infinity);
+          if (records.length >= STREAM_FETCH_LIMIT && oldest >= lastTimestamp) {
+            ({ records } = (await getNotifyHistoryPage({ limit: 'all', after: lastTimestamp })).data);
+          }
+
+          const newRecords = records
+            .filter(isUnsent)
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+          if (newRecords.length > 0) {
+            const latest = newRecords[newRecords.length - 1].timestamp;
+            const latestKeys = newRecords.filter(record => record.timestamp === latest).map(getRecordKey);
+            sentAtLast = latest === lastTimestamp
+              ? new Set([...(sentAtLast ?? []), ...latestKeys])
+              : new Set(latestKeys);
+            lastTimestamp = latest;
+            send(`id: ${lastTimestamp}\nevent: notifications\ndata: ${JSON.stringify(newRecords)}\n\n`);
+          } else {
+            send(': ping\n\n');
+          }
+        } catch (err) {
+          console.error('通知串流輪詢失敗:', err);
+          send(': upstream-error\n\n');
+        } finally {
+          polling = false;
+        }
+      };
+
+      send(`retry: 5000\n\n`);
+      poll();
+      timer = setInterval(poll, STREAM_INTERVAL);
+
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+        if (timer) clearInterval(timer);
+        try {
+          controller.close();
+        } catch {
+          // 串流已關閉
+        }
+      });
+    },
+    cancel() {
+      if (timer) clearInterval(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
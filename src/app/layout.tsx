@@ -1,12 +1,31 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
+import { PaletteProvider } from "@/contexts/PaletteContext";
 import { LimitProvider } from "@/contexts/LimitContext";
 import { DataProvider } from "@/contexts/DataContext";
+import { ServiceWorkerRegister } from "@/components/ServiceWorkerRegister";
 
 export const metadata: Metadata = {
   title: "DPIP 通知發送紀錄",
   description: "DPIP 通知發送紀錄與地圖視覺化系統",
+  applicationName: "DPIP 通知發送紀錄",
+  appleWebApp: {
+    capable: true,
+    title: "DPIP 通知",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    icon: "/icons/icon.svg",
+    apple: "/icons/apple-touch-icon.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: [
+    { media: "(prefers-color-scheme: light)", color: "#ffffff" },
+    { media: "(prefers-color-scheme: dark)", color: "#0f172a" },
+  ],
 };
 
 export default function RootLayout({
@@ -23,11 +42,14 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <LimitProvider>
-            <DataProvider>
-              {children}
-            </DataProvider>
-          </LimitProvider>
+          <PaletteProvider>
+            <LimitProvider>
+              <DataProvider>
+                {children}
+              </DataProvider>
+            </LimitProvider>
+          </PaletteProvider>
+          <ServiceWorkerRegister />
         </ThemeProvider>
       </body>
     </html>
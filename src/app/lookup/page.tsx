@@ -0,0 +1,213 @@
+'use client';
+
+import { useMemo, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, MapPin } from 'lucide-react';
+import { useLimitSync } from '@/hooks/useLimitSync';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import MapView from '@/components/MapView';
+import { NotificationSeverityBadge } from '@/components/NotificationCategoryBadge';
+import { TimeFilterComponent, useTimeFilter } from '@/components/TimeFilter';
+import { PointLookupFormComponent, usePointLookup } from '@/components/PointLookupForm';
+import { useDataContext } from '@/contexts/DataContext';
+import { useFilteredNotifications } from '@/hooks/useFilteredNotifications';
+import { findNotificationsAtPoint, PointMatchReason } from '@/utils/regionMatcher';
+import { getTimeAgo } from '@/lib/time-utils';
+
+const POINT_MATCH_REASON_LABELS: Record<PointMatchReason, string> = {
+  polygon: '位於警戒多邊形內',
+  code: '所在鄉鎮為發送對象',
+  nationwide: '全國廣播'
+};
+
+function LookupContent() {
+  const {
+    timeFilter,
+    startDate,
+    endDate,
+    handleTimeFilterChange,
+    handleStartDateChange,
+    handleEndDateChange,
+    handleApplyTimeSlot
+  } = useTimeFilter();
+  const { limitSetting } = useLimitSync();
+  const { point, handlePointChange } = usePointLookup();
+  const [includeNationwide, setIncludeNationwide] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // 只套用時間篩選，地區由查詢點決定
+  const { timeFilteredNotifications, loading, error } = useFilteredNotifications(null);
+  const { regionData, regionMatches, precomputeProgress } = useDataContext();
+
+  const lookup = useMemo(() => {
+    if (!point || !regionData) return null;
+    return findNotificationsAtPoint(timeFilteredNotifications, point[0], point[1], regionData, regionMatches);
+  }, [point, regionData, regionMatches, timeFilteredNotifications]);
+
+  const matches = useMemo(() => {
+    if (!lookup) return [];
+    return includeNationwide ? lookup.matches : lookup.matches.filter(match => match.reason !== 'nationwide');
+  }, [lookup, includeNationwide]);
+
+  const selectedMatch = matches.find(match => match.notification.id === selectedId) ?? matches[0] ?? null;
+
+  // 建構首頁的 URL，保留時間篩選和數量參數
+  const homeUrl = useMemo(() => {
+    const params = new URLSearchParams();
+
+    if (timeFilter !== 'all') {
+      params.set('timeFilter', timeFilter);
+      if (timeFilter === 'timeSlot' && startDate && endDate) {
+        params.set('startDate', startDate);
+        params.set('endDate', endDate);
+      }
+    }
+    if (limitSetting !== 100) {
+      params.set('limit', limitSetting.toString());
+    }
+
+    return params.toString() ? `/?${params.toString()}` : '/';
+  }, [timeFilter, startDate, endDate, limitSetting]);
+
+  if (loading && !error) {
+    return (
+      <LoadingSpinner
+        fullScreen
+        message="載入中..."
+        description={precomputeProgress ? '正在計算通知的地區對應' : '正在獲取通知資料'}
+        progress={precomputeProgress}
+      />
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="text-center py-12 text-red-500">載入通知資料失敗: {error}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="border-b border-border/50 px-4 sm:px-6 py-3 shadow-sm flex-shrink-0 space-y-3">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <div className="flex items-center gap-4">
+            <Link href={homeUrl}>
+              <Button variant="ghost" size="sm" className="gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                返回首頁
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-base sm:text-lg font-semibold">地點查詢</h1>
+              <p className="text-xs text-muted-foreground">點擊地圖或輸入經緯度，列出該地點會收到的通知</p>
+            </div>
+          </div>
+          <TimeFilterComponent
+            timeFilter={timeFilter}
+            startDate={startDate}
+            endDate={endDate}
+            onTimeFilterChange={handleTimeFilterChange}
+            onStartDateChange={handleStartDateChange}
+            onEndDateChange={handleEndDateChange}
+            onApplyTimeSlot={handleApplyTimeSlot}
+            compact={true}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <PointLookupFormComponent point={point} onPointChange={handlePointChange} />
+          <label className="flex items-center gap-1 text-sm whitespace-nowrap cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeNationwide}
+              onChange={(e) => setIncludeNationwide(e.target.checked)}
+            />
+            包含全國廣播
+          </label>
+        </div>
+      </header>
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden min-h-0 p-2 sm:p-3 lg:p-4 gap-3">
+        <Card className="md:w-96 flex-shrink-0 overflow-hidden flex flex-col max-h-[40%] md:max-h-none">
+          {!lookup ? (
+            <div className="p-6 text-center text-sm text-muted-foreground">
+              <MapPin className="w-8 h-8 mx-auto mb-3 text-primary" />
+              尚未選擇地點
+            </div>
+          ) : (
+            <>
+              <div className="px-4 py-3 border-b text-sm space-y-1">
+                <div>
+                  所在鄉鎮：
+                  {lookup.town ? (
+                    <span className="font-medium">{lookup.town.name}</span>
+                  ) : '無法判斷'}
+                  {lookup.town && (
+                    <span className="text-xs text-muted-foreground ml-1">
+                      （距鄉鎮中心 {lookup.town.distance.toFixed(1)} km）
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">共 {matches.length} 筆通知涵蓋此地點</div>
+              </div>
+              <ul className="flex-1 overflow-y-auto divide-y">
+                {matches.map(({ notification, reason, polygonIndex }) => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(notification.id)}
+                      className={`w-full text-left px-4 py-3 hover:bg-muted/50 ${
+                        selectedMatch?.notification.id === notification.id ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <div className="text-sm font-medium truncate">{notification.title}</div>
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        <Badge variant="outline">
+                          {POINT_MATCH_REASON_LABELS[reason]}
+                          {reason === 'polygon' && notification.Polygons.length > 1 && `（第 ${polygonIndex! + 1} 個）`}
+                        </Badge>
+                        {notification.critical && <NotificationSeverityBadge severity="alert" />}
+                        <span className="text-xs text-muted-foreground" title={new Date(notification.timestamp).toLocaleString('zh-TW')}>
+                          {getTimeAgo(notification.timestamp)}
+                        </span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+                {matches.length === 0 && (
+                  <li className="p-6 text-center text-sm text-muted-foreground">此時間範圍內沒有涵蓋此地點的通知</li>
+                )}
+              </ul>
+            </>
+          )}
+        </Card>
+        <Card className="flex-1 min-h-0 overflow-hidden">
+          <MapView
+            notification={selectedMatch?.notification ?? null}
+            marker={point}
+            onMapClick={handlePointChange}
+          />
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function LookupPage() {
+  return (
+    <Suspense fallback={
+      <LoadingSpinner
+        fullScreen
+        size="lg"
+        message="載入中..."
+        description="正在獲取通知資料"
+      />
+    }>
+      <LookupContent />
+    </Suspense>
+  );
+}
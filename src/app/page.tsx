@@ -9,22 +9,52 @@ import MapView from '@/components/MapView';
 import { NotificationRecord } from '@/types/notify';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { RefreshCcw, AlertTriangle, Shield, BarChart3, Filter, X } from 'lucide-react';
+import { RefreshCcw, AlertTriangle, Shield, BarChart3, Filter, X, Radio, Database, Crosshair, Bug, MapPin, History } from 'lucide-react';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { PaletteToggle } from '@/components/palette-toggle';
 import Link from 'next/link';
 import { useRegionData } from '@/hooks/useRegionData';
 import { TimeFilterComponent, useTimeFilter, TimeFilter } from '@/components/TimeFilter';
+import { RegionMatchFilterComponent, useRegionMatchFilter } from '@/components/RegionMatchFilter';
+import { RegionMatchDiagnosticsPanel } from '@/components/RegionMatchDiagnosticsPanel';
+import { SearchFilterComponent, useSearchFilter } from '@/components/SearchFilter';
+import { CategoryFilterComponent, useCategoryFilter } from '@/components/CategoryFilter';
+import { RegionSelectionFilterComponent, useRegionSelection } from '@/components/RegionSelectionFilter';
+import { DensityMapControlsComponent, useDensityMapOptions } from '@/components/DensityMapControls';
+import { TimelinePlaybackComponent, useTimelinePlayback } from '@/components/TimelinePlayback';
+import { NotificationCompareBarComponent, useNotificationCompare } from '@/components/NotificationCompare';
 import { useFilteredNotifications } from '@/hooks/useFilteredNotifications';
+import { useRegionMatchDiagnostics } from '@/hooks/useRegionMatchDiagnostics';
+import { getRegionMatchReasons } from '@/utils/regionMatcher';
+import {
+  formatRegionSelection,
+  isRegionSelectionEmpty,
+  SelectionArea,
+  SelectionDrawMode,
+  SPECIAL_REGIONS
+} from '@/utils/regionSelection';
+import {
+  countNotificationsByTown,
+  DensityMapData,
+  getDensityClasses,
+  getNotificationCentroids,
+  getTownNames
+} from '@/utils/densityMap';
+import { getPlaybackFrame, getPlaybackRange, sortNotificationsForPlayback } from '@/utils/timelinePlayback';
+import { computeCompareOverlap, getCompareItems, NotificationCompareData } from '@/utils/notificationCompare';
+import { useDataContext } from '@/contexts/DataContext';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import { NOTIFY_WS_URL } from '@/hooks/useLiveNotifications';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import Image from 'next/image';
 
 
 function HomeContent() {
   const { limitSetting, updateLimit } = useLimitSync();
   const [selectedNotification, setSelectedNotification] = useState<NotificationRecord | null>(null);
-  const [regionFilter, setRegionFilter] = useState<string | null>(null);
-  const [selectedCity, setSelectedCity] = useState<string | null>(null);
-  const [selectedDistrict, setSelectedDistrict] = useState<string | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [drawMode, setDrawMode] = useState<SelectionDrawMode | null>(null);
   const { regionData } = useRegionData();
   const {
     timeFilter,
@@ -35,6 +65,12 @@ function HomeContent() {
     handleEndDateChange,
     handleApplyTimeSlot
   } = useTimeFilter();
+  const { regionMatchOptions, handleRegionMatchOptionsChange } = useRegionMatchFilter();
+  const { searchQuery, searchTerms, handleSearchQueryChange } = useSearchFilter();
+  const { categoryFilter, handleCategoryFilterChange } = useCategoryFilter();
+  const { regionSelection, handleRegionSelectionChange } = useRegionSelection();
+  const hasRegionSelection = !isRegionSelectionEmpty(regionSelection);
+  const { densityMapOptions, handleDensityMapOptionsChange } = useDensityMapOptions();
   
   // 使用統一的數據處理hook
   const { 
@@ -42,9 +78,117 @@ function HomeContent() {
     timeFilteredNotifications,
     loading, 
     error, 
-    refetch 
-  } = useFilteredNotifications(regionFilter);
+    refetch,
+    hasMore,
+    loadingMore,
+    loadMore
+  } = useFilteredNotifications(regionSelection);
+  const {
+    liveMode,
+    setLiveMode,
+    liveTransport,
+    setLiveTransport,
+    liveStatus,
+    newNotificationIds,
+    cachedDataAt,
+    precomputeProgress,
+    regionMatches,
+    regionMatchMode,
+    setRegionMatchMode
+  } = useDataContext();
+  const { colors: paletteColors } = usePaletteContext();
+  
+  // 選取通知由多邊形涵蓋的各鄉鎮明細
+  const selectedTownMatches = selectedNotification
+    ? regionMatches.get(selectedNotification.id)?.towns.filter(town => town.reason === 'polygon')
+    : undefined;
   
+  // 匹配診斷：選取通知的網格抽樣點、備用方案，以及符合目前地區篩選的原因
+  const {
+    diagnostics,
+    loading: diagnosticsLoading,
+    error: diagnosticsError
+  } = useRegionMatchDiagnostics(selectedNotification, showDiagnostics);
+  // 只選擇單一縣市或鄉鎮時才列出符合的原因
+  const selectedPlaceRegions = regionSelection.regions.filter(region => !SPECIAL_REGIONS.some(special => special.value === region));
+  const diagnosticsRegion = selectedPlaceRegions.length === 1 ? selectedPlaceRegions[0] : null;
+  const diagnosticsReasons = useMemo(() => {
+    if (!showDiagnostics || !selectedNotification || !diagnosticsRegion || !regionData) return [];
+    return getRegionMatchReasons(selectedNotification, diagnosticsRegion, regionData, regionMatches, regionMatchOptions);
+  }, [showDiagnostics, selectedNotification, diagnosticsRegion, regionData, regionMatches, regionMatchOptions]);
+  // 密度圖：依目前篩選後的通知統計各鄉鎮數量
+  const townNames = useMemo(() => regionData ? getTownNames(regionData) : new Map<number, string>(), [regionData]);
+  const densityData = useMemo((): DensityMapData | null => {
+    if (!densityMapOptions.enabled || !regionData) return null;
+    const counts = countNotificationsByTown(notifications, regionData, regionMatches, regionMatchOptions);
+    return {
+      counts,
+      names: townNames,
+      classes: getDensityClasses(Math.max(0, ...counts.values()), densityMapOptions.scale, densityMapOptions.palette),
+      centroids: densityMapOptions.heatmap ? getNotificationCentroids(notifications) : null,
+      palette: densityMapOptions.palette
+    };
+  }, [densityMapOptions, regionData, notifications, regionMatches, regionMatchOptions, townNames]);
+  // 時間軸播放：依目前篩選後的通知逐一顯示
+  const playbackNotifications = useMemo(() => sortNotificationsForPlayback(notifications), [notifications]);
+  const playbackRange = useMemo(() => getPlaybackRange(playbackNotifications), [playbackNotifications]);
+  const {
+    playbackOptions,
+    handlePlaybackOptionsChange,
+    currentTime: playbackTime,
+    playing,
+    play,
+    pause,
+    seek
+  } = useTimelinePlayback(playbackRange);
+  const playbackFrame = useMemo(() => {
+    if (!playbackOptions.enabled || playbackTime === null) return null;
+    return getPlaybackFrame(playbackNotifications, playbackTime, playbackOptions.speed);
+  }, [playbackOptions.enabled, playbackOptions.speed, playbackNotifications, playbackTime]);
+  // 多則通知比較：依勾選順序分配顏色並計算聯集與交集
+  const { compareIds, toggleCompare, clearCompare } = useNotificationCompare();
+  const compareData = useMemo((): NotificationCompareData | null => {
+    const items = getCompareItems(compareIds, notifications, paletteColors.compare);
+    if (items.length === 0) return null;
+    return { items, overlap: computeCompareOverlap(items.map(item => item.notification)) };
+  }, [compareIds, notifications, paletteColors]);
+  const compareColors = useMemo(
+    () => new Map(compareData?.items.map(item => [item.notification.id, item.color]) ?? []),
+    [compareData]
+  );
+  const mapNotification = densityMapOptions.enabled || playbackOptions.enabled || compareData ? null : selectedNotification;
+  
+  const playbackFooter = playbackOptions.enabled && playbackRange && playbackTime !== null ? (
+    <TimelinePlaybackComponent
+      range={playbackRange}
+      currentTime={playbackTime}
+      playing={playing}
+      options={playbackOptions}
+      activeCount={playbackFrame?.activeCount ?? 0}
+      onPlay={play}
+      onPause={pause}
+      onSeek={seek}
+      onOptionsChange={handlePlaybackOptionsChange}
+    />
+  ) : null;
+  
+  const listHeader = (
+    <div className="space-y-2">
+      <SearchFilterComponent query={searchQuery} onQueryChange={handleSearchQueryChange} />
+      <NotificationCompareBarComponent count={compareData?.items.length ?? 0} onClear={clearCompare} />
+    </div>
+  );
+  const diagnosticsPanel = showDiagnostics ? (
+    <RegionMatchDiagnosticsPanel
+      diagnostics={diagnostics}
+      loading={diagnosticsLoading}
+      error={diagnosticsError}
+      regionFilter={diagnosticsRegion}
+      filterReasons={diagnosticsReasons}
+    />
+  ) : null;
+  
+  const isOnline = useOnlineStatus();
   const searchParams = useSearchParams();
   const router = useRouter();
   
@@ -66,50 +210,44 @@ function HomeContent() {
       params.set('limit', limitSetting.toString());
     }
     
+    // 保留地區篩選語意
+    if (regionMatchOptions.semantics !== 'primary') {
+      params.set('match', regionMatchOptions.semantics);
+      if (regionMatchOptions.semantics === 'threshold') {
+        params.set('threshold', regionMatchOptions.threshold.toString());
+      }
+    }
+    
+    // 保留類型與緊急程度篩選
+    if (categoryFilter.categories.length > 0) {
+      params.set('category', categoryFilter.categories.join(','));
+    }
+    if (categoryFilter.criticalOnly) {
+      params.set('critical', '1');
+    }
+    
     return params.toString() ? `/analytics?${params.toString()}` : '/analytics';
-  }, [timeFilter, startDate, endDate, limitSetting]);
+  }, [timeFilter, startDate, endDate, limitSetting, regionMatchOptions, categoryFilter]);
   
-  // 從 URL 參數讀取各種篩選條件
-  useEffect(() => {
-    const regionParam = searchParams.get('region');
+  // 建構地點查詢頁面的 URL，保留時間篩選和數量參數
+  const lookupUrl = useMemo(() => {
+    const params = new URLSearchParams();
     
-    // 處理地區篩選
-    if (regionParam) {
-      const decodedRegion = decodeURIComponent(regionParam);
-      setRegionFilter(decodedRegion);
-      
-      // 同時更新UI篩選狀態
-      if (decodedRegion === '全部(不指定地區的全部用戶廣播通知)') {
-        setSelectedCity(decodedRegion);
-        setSelectedDistrict(null);
-      } else if (regionData) {
-        // 檢查是否為縣市
-        if (Object.keys(regionData).includes(decodedRegion)) {
-          setSelectedCity(decodedRegion);
-          setSelectedDistrict(null);
-        } else {
-          // 檢查是否為鄉鎮區
-          for (const [city, districts] of Object.entries(regionData)) {
-            for (const district of Object.keys(districts)) {
-              if (`${city}${district}` === decodedRegion) {
-                setSelectedCity(city);
-                setSelectedDistrict(decodedRegion);
-                break;
-              }
-            }
-          }
-        }
+    if (timeFilter !== 'all') {
+      params.set('timeFilter', timeFilter);
+      if (timeFilter === 'timeSlot' && startDate && endDate) {
+        params.set('startDate', startDate);
+        params.set('endDate', endDate);
       }
-    } else {
-      setRegionFilter(null);
-      setSelectedCity(null);
-      setSelectedDistrict(null);
+    }
+    if (limitSetting !== 100) {
+      params.set('limit', limitSetting.toString());
     }
     
-  }, [searchParams, regionData]);
-
-
-  // 從 URL 參數讀取 timestamp 並設置選中的通知
+    return params.toString() ? `/lookup?${params.toString()}` : '/lookup';
+  }, [timeFilter, startDate, endDate, limitSetting]);
+  
+  // 從 URL 參數讀取通知識別碼並設置選中的通知
   useEffect(() => {
     const workingNotifications = notifications;
     
@@ -118,42 +256,76 @@ function HomeContent() {
       return;
     }
 
+    const idParam = searchParams.get('id');
+    // 舊版連結以 t（timestamp）指定通知
     const timestampParam = searchParams.get('t');
     
-    if (timestampParam) {
+    if (idParam) {
+      const notification = workingNotifications.find(n => n.id === idParam);
+      setSelectedNotification(notification ?? workingNotifications[0]);
+    } else if (timestampParam) {
       const timestampNumber = parseInt(timestampParam, 10);
       const notification = workingNotifications.find(n => n.timestamp === timestampNumber);
       
       if (notification) {
         setSelectedNotification(notification);
+        // 將舊版連結改寫為識別碼
+        const params = new URLSearchParams(searchParams);
+        params.delete('t');
+        params.set('id', notification.id);
+        router.replace(`?${params.toString()}`, { scroll: false });
       } else {
         setSelectedNotification(workingNotifications[0]);
       }
     } else {
       setSelectedNotification(workingNotifications[0]);
     }
-  }, [notifications, searchParams]);
+  }, [notifications, searchParams, router]);
+  
+  // 點擊密度圖上的鄉鎮：篩選該鄉鎮並回到通知列表與地圖
+  const handleTownClick = (code: number) => {
+    const name = townNames.get(code);
+    if (!name) return;
+    
+    const params = new URLSearchParams(window.location.search);
+    params.set('region', name);
+    params.delete('area');
+    params.delete('density');
+    params.delete('palette');
+    params.delete('scale');
+    params.delete('heatmap');
+    router.push(`/?${params.toString()}`, { scroll: false });
+  };
+  
+  // 繪製完成後加入地區選擇
+  const handleAreaDrawn = (area: SelectionArea) => {
+    setDrawMode(null);
+    handleRegionSelectionChange({ ...regionSelection, area });
+  };
   
   // 更新 URL 當選擇不同通知
   const handleSelectNotification = (notification: NotificationRecord) => {
     setSelectedNotification(notification);
     // 更新 URL 參數（統一使用字串格式）
     const params = new URLSearchParams(searchParams);
-    params.set('t', notification.timestamp.toString());
+    params.delete('t');
+    params.set('id', notification.id);
     router.push(`?${params.toString()}`, { scroll: false });
   };
 
-  if (loading) {
+  if (loading && !error) {
     return (
       <LoadingSpinner 
         fullScreen 
         message="載入中..." 
-        description="正在獲取通知資料" 
+        description={precomputeProgress ? '正在計算通知的地區對應' : '正在獲取通知資料'}
+        progress={precomputeProgress}
       />
     );
   }
 
-  if (error) {
+  // 離線時改由列表與地圖顯示離線提示，不使用一般錯誤畫面
+  if (error && isOnline) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -190,25 +362,32 @@ function HomeContent() {
               <h1 className="text-base sm:text-lg font-semibold text-foreground">DPIP 通知發送紀錄</h1>
               <div className="flex items-center gap-2">
                 <p className="text-xs text-muted-foreground">
-                  {(selectedCity || selectedDistrict || regionFilter) ? `${notifications.length} / ${timeFilteredNotifications.length}` : timeFilteredNotifications.length} 筆通知紀錄
+                  {(hasRegionSelection || searchTerms.length > 0 || categoryFilter.categories.length > 0 || categoryFilter.criticalOnly) ? `${notifications.length} / ${timeFilteredNotifications.length}` : timeFilteredNotifications.length} 筆通知紀錄
                 </p>
-                {(selectedCity || selectedDistrict || regionFilter) && (
+                {cachedDataAt !== null && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                    title="目前顯示的是本機快取資料，尚未與伺服器同步"
+                  >
+                    <Database className="w-3 h-3" />
+                    顯示 {new Date(cachedDataAt).toLocaleString('zh-TW', {
+                      month: 'numeric',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })} 的快取資料
+                  </span>
+                )}
+                {hasRegionSelection && (
                   <div className="flex items-center gap-1">
                     <Filter className="w-3 h-3 text-muted-foreground" />
                     <span className="text-xs text-muted-foreground">
-                      {selectedDistrict || selectedCity || regionFilter}
+                      {formatRegionSelection(regionSelection)}
                     </span>
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => {
-                        setSelectedCity(null);
-                        setSelectedDistrict(null);
-                        setRegionFilter(null);
-                        const params = new URLSearchParams(searchParams);
-                        params.delete('region');
-                        router.push(`/?${params.toString()}`, { scroll: false });
-                      }}
+                      onClick={() => handleRegionSelectionChange({ regions: [], area: null })}
                       className="h-4 w-4 p-0"
                     >
                       <X className="w-2 h-2" />
@@ -279,64 +458,106 @@ function HomeContent() {
             
             {regionData && (
               <div className="hidden md:flex gap-1">
-                <select 
-                  value={selectedCity || ''} 
-                  onChange={(e) => {
-                    const city = e.target.value;
-                    setSelectedCity(city || null);
-                    setSelectedDistrict(null);
-                    setRegionFilter(city || null);
-                    
-                    // 更新URL參數
-                    const params = new URLSearchParams(searchParams);
-                    if (city) {
-                      params.set('region', encodeURIComponent(city));
-                    } else {
-                      params.delete('region');
-                    }
-                    router.push(`/?${params.toString()}`, { scroll: false });
-                  }}
-                  className="text-xs border rounded px-2 py-1 bg-background"
-                >
-                  <option value="">全部縣市</option>
-                  <option value="全部(不指定地區的全部用戶廣播通知)">📢 全國廣播</option>
-                  {Object.keys(regionData).map(city => (
-                    <option key={city} value={city}>{city}</option>
-                  ))}
-                </select>
+                <RegionSelectionFilterComponent
+                  selection={regionSelection}
+                  regionData={regionData}
+                  onChange={handleRegionSelectionChange}
+                  drawMode={drawMode}
+                  onDrawModeChange={setDrawMode}
+                  compact={true}
+                />
                 
-                {selectedCity && selectedCity !== '全部(不指定地區的全部用戶廣播通知)' && (
-                  <select 
-                    value={selectedDistrict || ''} 
-                    onChange={(e) => {
-                      const district = e.target.value;
-                      setSelectedDistrict(district || null);
-                      setRegionFilter(district || selectedCity);
-                      
-                      // 更新URL參數
-                      const params = new URLSearchParams(searchParams);
-                      if (district) {
-                        params.set('region', encodeURIComponent(district));
-                      } else if (selectedCity) {
-                        params.set('region', encodeURIComponent(selectedCity));
-                      } else {
-                        params.delete('region');
-                      }
-                      router.push(`/?${params.toString()}`, { scroll: false });
-                    }}
-                    className="text-xs border rounded px-2 py-1 bg-background"
-                  >
-                    <option value="">全部鄉鎮區</option>
-                    {Object.keys(regionData[selectedCity] || {}).map(district => (
-                      <option key={district} value={`${selectedCity}${district}`}>
-                        {district}
-                      </option>
-                    ))}
-                  </select>
-                )}
+                {/* 多邊形涵蓋多個鄉鎮時的篩選語意 */}
+                <div className="hidden md:block">
+                  <RegionMatchFilterComponent
+                    options={regionMatchOptions}
+                    onChange={handleRegionMatchOptionsChange}
+                    compact={true}
+                  />
+                </div>
+                
+                {/* 通知類型與緊急程度篩選 */}
+                <div className="hidden md:block">
+                  <CategoryFilterComponent
+                    filter={categoryFilter}
+                    onChange={handleCategoryFilterChange}
+                    compact={true}
+                  />
+                </div>
               </div>
             )}
             
+            <div className="flex items-center gap-1">
+              <Button
+                variant={liveMode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLiveMode(!liveMode)}
+                className="gap-2"
+                title={liveMode ? '關閉即時模式' : '開啟即時模式'}
+              >
+                <Radio className={`w-3.5 h-3.5 ${liveMode && liveStatus === 'open' ? 'animate-pulse' : ''}`} />
+                <span className="hidden sm:inline">
+                  {!liveMode ? '即時' : liveStatus === 'open' ? '即時中' : liveStatus === 'error' ? '連線失敗' : '連線中'}
+                </span>
+              </Button>
+              {NOTIFY_WS_URL && (
+                <select
+                  value={liveTransport}
+                  onChange={(e) => setLiveTransport(e.target.value as typeof liveTransport)}
+                  className="hidden md:block text-xs border rounded px-2 py-1 bg-background"
+                >
+                  <option value="sse">SSE</option>
+                  <option value="websocket">WebSocket</option>
+                </select>
+              )}
+            </div>
+            
+            <Button
+              variant={regionMatchMode === 'exact' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRegionMatchMode(regionMatchMode === 'exact' ? 'grid' : 'exact')}
+              className="gap-2"
+              title={regionMatchMode === 'exact' ? '改用網格抽樣比對地區' : '以實際鄉鎮界線精確比對地區'}
+            >
+              <Crosshair className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">精確比對</span>
+            </Button>
+            
+            <DensityMapControlsComponent
+              options={densityMapOptions}
+              onChange={handleDensityMapOptionsChange}
+              compact={true}
+            />
+            
+            <Button
+              variant={playbackOptions.enabled ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handlePlaybackOptionsChange({ ...playbackOptions, enabled: !playbackOptions.enabled })}
+              className="gap-2"
+              title="依發送時間在地圖上播放通知"
+            >
+              <History className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">時間軸</span>
+            </Button>
+            
+            <Button
+              variant={showDiagnostics ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowDiagnostics(!showDiagnostics)}
+              className="gap-2"
+              title="顯示選取通知的地區匹配過程"
+            >
+              <Bug className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">匹配診斷</span>
+            </Button>
+            
+            <Link href={lookupUrl}>
+              <Button variant="outline" size="sm" className="gap-2" title="查詢某個地點會收到哪些通知">
+                <MapPin className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">地點查詢</span>
+              </Button>
+            </Link>
+            
             <Link href={analyticsUrl}>
               <Button variant="outline" size="sm" className="gap-2">
                 <BarChart3 className="w-3.5 h-3.5" />
@@ -344,6 +565,7 @@ function HomeContent() {
               </Button>
             </Link>
             <ThemeToggle />
+            <PaletteToggle />
             <Button onClick={refetch} variant="outline" size="sm" className="gap-2">
               <RefreshCcw className="w-3.5 h-3.5" />
               <span className="hidden sm:inline">重新整理</span>
@@ -360,13 +582,36 @@ function HomeContent() {
               notifications={notifications}
               selectedNotification={selectedNotification}
               onSelectNotification={handleSelectNotification}
+              highlightedIds={newNotificationIds}
+              searchTerms={searchTerms}
+              header={listHeader}
+              compareColors={compareColors}
+              onToggleCompare={(notification, range) => toggleCompare(notification, notifications, range)}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
           </Card>
           <Card className="w-[450px] bg-gradient-to-b from-muted/20 to-muted/40 flex-shrink-0 overflow-hidden">
-            <PhonePreview notification={selectedNotification} />
+            <PhonePreview notification={selectedNotification} searchTerms={searchTerms} />
           </Card>
           <Card className="flex-1 min-w-0 overflow-hidden">
-            <MapView notification={selectedNotification} />
+            <MapView
+              notification={mapNotification}
+              townMatches={selectedTownMatches}
+              diagnostics={showDiagnostics ? diagnostics : null}
+              selectionArea={regionSelection.area}
+              drawMode={drawMode}
+              onAreaDrawn={handleAreaDrawn}
+              onDrawCancel={() => setDrawMode(null)}
+              density={densityData}
+              onTownClick={handleTownClick}
+              playbackFrame={playbackFrame}
+              footer={playbackFooter}
+              compare={compareData}
+            >
+              {diagnosticsPanel}
+            </MapView>
           </Card>
         </div>
 
@@ -377,14 +622,37 @@ function HomeContent() {
               notifications={notifications}
               selectedNotification={selectedNotification}
               onSelectNotification={handleSelectNotification}
+              highlightedIds={newNotificationIds}
+              searchTerms={searchTerms}
+              header={listHeader}
+              compareColors={compareColors}
+              onToggleCompare={(notification, range) => toggleCompare(notification, notifications, range)}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
           </Card>
           <div className="flex-1 flex flex-col min-w-0 gap-3">
             <Card className="h-80 bg-gradient-to-b from-muted/20 to-muted/40 flex-shrink-0 overflow-hidden">
-              <PhonePreview notification={selectedNotification} />
+              <PhonePreview notification={selectedNotification} searchTerms={searchTerms} />
             </Card>
             <Card className="flex-1 min-h-0 overflow-hidden">
-              <MapView notification={selectedNotification} />
+              <MapView
+                notification={mapNotification}
+                townMatches={selectedTownMatches}
+                diagnostics={showDiagnostics ? diagnostics : null}
+                selectionArea={regionSelection.area}
+                drawMode={drawMode}
+                onAreaDrawn={handleAreaDrawn}
+                onDrawCancel={() => setDrawMode(null)}
+                density={densityData}
+                onTownClick={handleTownClick}
+                playbackFrame={playbackFrame}
+                footer={playbackFooter}
+                compare={compareData}
+              >
+                {diagnosticsPanel}
+              </MapView>
             </Card>
           </div>
         </div>
@@ -396,14 +664,37 @@ function HomeContent() {
               notifications={notifications}
               selectedNotification={selectedNotification}
               onSelectNotification={handleSelectNotification}
+              highlightedIds={newNotificationIds}
+              searchTerms={searchTerms}
+              header={listHeader}
+              compareColors={compareColors}
+              onToggleCompare={(notification, range) => toggleCompare(notification, notifications, range)}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
           </Card>
           <div className="flex-1 flex min-h-0 gap-3">
             <Card className="w-80 bg-gradient-to-b from-muted/20 to-muted/40 flex-shrink-0 overflow-hidden">
-              <PhonePreview notification={selectedNotification} />
+              <PhonePreview notification={selectedNotification} searchTerms={searchTerms} />
             </Card>
             <Card className="flex-1 min-w-0 overflow-hidden">
-              <MapView notification={selectedNotification} />
+              <MapView
+                notification={mapNotification}
+                townMatches={selectedTownMatches}
+                diagnostics={showDiagnostics ? diagnostics : null}
+                selectionArea={regionSelection.area}
+                drawMode={drawMode}
+                onAreaDrawn={handleAreaDrawn}
+                onDrawCancel={() => setDrawMode(null)}
+                density={densityData}
+                onTownClick={handleTownClick}
+                playbackFrame={playbackFrame}
+                footer={playbackFooter}
+                compare={compareData}
+              >
+                {diagnosticsPanel}
+              </MapView>
             </Card>
           </div>
         </div>
@@ -415,10 +706,33 @@ function HomeContent() {
               notifications={notifications}
               selectedNotification={selectedNotification}
               onSelectNotification={handleSelectNotification}
+              highlightedIds={newNotificationIds}
+              searchTerms={searchTerms}
+              header={listHeader}
+              compareColors={compareColors}
+              onToggleCompare={(notification, range) => toggleCompare(notification, notifications, range)}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
             />
           </Card>
           <Card className="flex-1 min-h-0 overflow-hidden rounded-none -mx-2 -mb-2">
-            <MapView notification={selectedNotification} />
+            <MapView
+              notification={mapNotification}
+              townMatches={selectedTownMatches}
+              diagnostics={showDiagnostics ? diagnostics : null}
+              selectionArea={regionSelection.area}
+              drawMode={drawMode}
+              onAreaDrawn={handleAreaDrawn}
+              onDrawCancel={() => setDrawMode(null)}
+              density={densityData}
+              onTownClick={handleTownClick}
+              playbackFrame={playbackFrame}
+              footer={playbackFooter}
+              compare={compareData}
+            >
+              {diagnosticsPanel}
+            </MapView>
           </Card>
         </div>
       </div>
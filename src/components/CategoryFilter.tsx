@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ChevronDown } from 'lucide-react';
+import {
+  CategoryFilter,
+  isNotificationCategory,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NotificationCategory
+} from '@/utils/notificationCategory';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+
+export interface CategoryFilterProps {
+  filter: CategoryFilter;
+  onChange: (filter: CategoryFilter) => void;
+  compact?: boolean;
+}
+
+export const CategoryFilterComponent: React.FC<CategoryFilterProps> = ({
+  filter,
+  onChange,
+  compact = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { colors } = usePaletteContext();
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  // 點擊選單外部時關閉
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const toggleCategory = (category: NotificationCategory) => {
+    const categories = filter.categories.includes(category)
+      ? filter.categories.filter(c => c !== category)
+      : [...filter.categories, category];
+    onChange({ ...filter, categories });
+  };
+
+  const summary = filter.categories.length === 0
+    ? '全部類型'
+    : filter.categories.length === 1
+      ? NOTIFICATION_CATEGORY_LABELS[filter.categories[0]]
+      : `${filter.categories.length} 種類型`;
+
+  return (
+    <div ref={containerRef} className={`relative flex items-center gap-2 ${textClass}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 border rounded px-2 py-1 bg-background max-w-48 ${textClass}`}
+        aria-expanded={open}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-1 z-50 w-64 max-h-80 overflow-y-auto bg-background border rounded-md shadow-lg p-2">
+          {NOTIFICATION_CATEGORIES.map(category => (
+            <label
+              key={category}
+              className="flex items-center gap-2 px-1 py-1 rounded hover:bg-muted cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={filter.categories.includes(category)}
+                onChange={() => toggleCategory(category)}
+              />
+              <span
+                className="w-2 h-2 rounded-full flex-shrink-0"
+                style={{ backgroundColor: colors.category[category] }}
+              />
+              <span className="truncate">{NOTIFICATION_CATEGORY_LABELS[category]}</span>
+            </label>
+          ))}
+          {filter.categories.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...filter, categories: [] })}
+              className="mt-1 w-full text-center text-muted-foreground hover:text-foreground py-1"
+            >
+              清除類型篩選
+            </button>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-1 whitespace-nowrap cursor-pointer">
+        <input
+          type="checkbox"
+          checked={filter.criticalOnly}
+          onChange={(e) => onChange({ ...filter, criticalOnly: e.target.checked })}
+        />
+        僅緊急
+      </label>
+    </div>
+  );
+};
+
+// 從 URL 讀取類型與緊急程度篩選（category、critical 參數）
+export const useCategoryFilter = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const categoryParam = searchParams.get('category');
+  const criticalParam = searchParams.get('critical');
+
+  const categoryFilter = useMemo((): CategoryFilter => ({
+    categories: (categoryParam ?? '').split(',').filter(isNotificationCategory),
+    criticalOnly: criticalParam === '1'
+  }), [categoryParam, criticalParam]);
+
+  // 更新 URL 參數，未篩選時不寫入 URL
+  const handleCategoryFilterChange = useCallback((filter: CategoryFilter) => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (filter.categories.length > 0) {
+      params.set('category', filter.categories.join(','));
+    } else {
+      params.delete('category');
+    }
+
+    if (filter.criticalOnly) {
+      params.set('critical', '1');
+    } else {
+      params.delete('critical');
+    }
+
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  return {
+    categoryFilter,
+    handleCategoryFilterChange
+  };
+};
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_DENSITY_MAP_OPTIONS,
+  DENSITY_PALETTES,
+  DENSITY_SCALE_LABELS,
+  DensityMapOptions,
+  DensityPalette,
+  DensityScale
+} from '@/utils/densityMap';
+
+export interface DensityMapControlsProps {
+  options: DensityMapOptions;
+  onChange: (options: DensityMapOptions) => void;
+  compact?: boolean;
+}
+
+export const DensityMapControlsComponent: React.FC<DensityMapControlsProps> = ({
+  options,
+  onChange,
+  compact = false
+}) => {
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={`flex items-center gap-1 ${textClass}`}>
+      <Button
+        variant={options.enabled ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onChange({ ...options, enabled: !options.enabled })}
+        className="gap-2"
+        title={options.enabled ? '改為顯示選取的通知' : '依通知數量為各鄉鎮著色'}
+      >
+        <Layers className="w-3.5 h-3.5" />
+        <span className="hidden sm:inline">密度圖</span>
+      </Button>
+
+      {options.enabled && (
+        <>
+          <select
+            value={options.palette}
+            onChange={(e) => onChange({ ...options, palette: e.target.value as DensityPalette })}
+            className={`border rounded px-2 py-1 bg-background ${textClass}`}
+            title="色階"
+          >
+            {(Object.keys(DENSITY_PALETTES) as DensityPalette[]).map(palette => (
+              <option key={palette} value={palette}>{DENSITY_PALETTES[palette].label}</option>
+            ))}
+          </select>
+          <select
+            value={options.scale}
+            onChange={(e) => onChange({ ...options, scale: e.target.value as DensityScale })}
+            className={`border rounded px-2 py-1 bg-background ${textClass}`}
+            title="分級方式"
+          >
+            {(Object.keys(DENSITY_SCALE_LABELS) as DensityScale[]).map(scale => (
+              <option key={scale} value={scale}>{DENSITY_SCALE_LABELS[scale]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 whitespace-nowrap cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.heatmap}
+              onChange={(e) => onChange({ ...options, heatmap: e.target.checked })}
+            />
+            熱區
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+// 從 URL 讀取密度圖設定（density、palette、scale、heatmap 參數）
+export const useDensityMapOptions = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const densityParam = searchParams.get('density');
+  const paletteParam = searchParams.get('palette');
+  const scaleParam = searchParams.get('scale');
+  const heatmapParam = searchParams.get('heatmap');
+
+  const densityMapOptions = useMemo((): DensityMapOptions => ({
+    enabled: densityParam === '1',
+    palette: paletteParam && Object.keys(DENSITY_PALETTES).includes(paletteParam)
+      ? paletteParam as DensityPalette
+      : DEFAULT_DENSITY_MAP_OPTIONS.palette,
+    scale: scaleParam && Object.keys(DENSITY_SCALE_LABELS).includes(scaleParam)
+      ? scaleParam as DensityScale
+      : DEFAULT_DENSITY_MAP_OPTIONS.scale,
+    heatmap: heatmapParam === '1'
+  }), [densityParam, paletteParam, scaleParam, heatmapParam]);
+
+  // 更新 URL 參數，預設值不寫入 URL；關閉密度圖時一併移除其他設定
+  const handleDensityMapOptionsChange = useCallback((options: DensityMapOptions) => {
+    const params = new URLSearchParams(window.location.search);
+
+    params.delete('density');
+    params.delete('palette');
+    params.delete('scale');
+    params.delete('heatmap');
+
+    if (options.enabled) {
+      params.set('density', '1');
+      if (options.palette !== DEFAULT_DENSITY_MAP_OPTIONS.palette) {
+        params.set('palette', options.palette);
+      }
+      if (options.scale !== DEFAULT_DENSITY_MAP_OPTIONS.scale) {
+        params.set('scale', options.scale);
+      }
+      if (options.heatmap) {
+        params.set('heatmap', '1');
+      }
+    }
+
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  return {
+    densityMapOptions,
+    handleDensityMapOptionsChange
+  };
+};
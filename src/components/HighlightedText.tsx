@@ -0,0 +1,45 @@
+'use client';
+
+import { useMemo } from 'react';
+import { getSearchHighlightRanges, SearchField, SearchTerm } from '@/utils/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: SearchTerm[];
+  field: SearchField;
+}
+
+// 以 <mark> 標示文字中符合搜尋條件的部分
+export function HighlightedText({ text, terms, field }: HighlightedTextProps) {
+  const parts = useMemo(() => {
+    if (!terms || terms.length === 0) return null;
+
+    const ranges = getSearchHighlightRanges(text, terms, field);
+    if (ranges.length === 0) return null;
+
+    const result: Array<{ text: string; match: boolean }> = [];
+    let position = 0;
+    for (const [start, end] of ranges) {
+      if (start > position) result.push({ text: text.slice(position, start), match: false });
+      result.push({ text: text.slice(start, end), match: true });
+      position = end;
+    }
+    if (position < text.length) result.push({ text: text.slice(position), match: false });
+
+    return result;
+  }, [text, terms, field]);
+
+  if (!parts) return <>{text}</>;
+
+  return (
+    <>
+      {parts.map((part, index) => part.match ? (
+        <mark key={index} className="bg-yellow-300/70 dark:bg-yellow-500/40 text-inherit rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </>
+  );
+}
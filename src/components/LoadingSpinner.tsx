@@ -7,13 +7,16 @@ interface LoadingSpinnerProps {
   fullScreen?: boolean;
   message?: string;
   description?: string;
+  // 已完成 / 總數，提供時顯示進度條
+  progress?: { completed: number; total: number } | null;
 }
 
 export function LoadingSpinner({ 
   size = 'md', 
   fullScreen = false, 
   message = '載入中...', 
-  description 
+  description,
+  progress
 }: LoadingSpinnerProps) {
   const sizeClasses = {
     sm: 'w-6 h-6',
@@ -21,6 +24,10 @@ export function LoadingSpinner({
     lg: 'w-12 h-12'
   };
 
+  const percent = progress && progress.total > 0
+    ? Math.min(100, Math.round((progress.completed / progress.total) * 100))
+    : 0;
+
   const containerClasses = fullScreen
     ? 'min-h-screen flex items-center justify-center bg-background'
     : 'flex items-center justify-center py-12';
@@ -33,6 +40,25 @@ export function LoadingSpinner({
         {description && (
           <p className="text-sm text-muted-foreground">{description}</p>
         )}
+        {progress && (
+          <div className="w-64 space-y-1">
+            <div
+              className="h-2 w-full overflow-hidden rounded-full bg-muted"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={progress.total}
+              aria-valuenow={progress.completed}
+            >
+              <div
+                className="h-full bg-primary transition-[width] duration-200"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground tabular-nums">
+              {progress.completed} / {progress.total}（{percent}%）
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
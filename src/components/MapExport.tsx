@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  MAP_EXPORT_FORMAT_LABELS,
+  MAP_EXPORT_FORMATS,
+  MAP_EXPORT_SCALES,
+  MapExportFormat
+} from '@/utils/mapExport';
+
+export interface MapExportOptions {
+  format: MapExportFormat;
+  scale: number;
+}
+
+export interface MapExportProps {
+  onExport: (options: MapExportOptions) => Promise<void>;
+}
+
+// 地圖右上角的匯出按鈕：選擇格式與解析度後下載
+export const MapExportComponent: React.FC<MapExportProps> = ({ onExport }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<MapExportOptions>({ format: 'png', scale: 2 });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(options);
+      setOpen(false);
+    } catch (err) {
+      console.error('匯出地圖失敗:', err);
+      setError(err instanceof Error ? err.message : '匯出失敗');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2 text-xs">
+      <Button
+        variant={open ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="gap-2 bg-background/95 backdrop-blur-sm"
+        title="匯出地圖與通知說明"
+        aria-expanded={open}
+      >
+        <Download className="w-3.5 h-3.5" />
+        <span className="hidden sm:inline">匯出</span>
+      </Button>
+
+      {open && (
+        <div className="w-56 bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm space-y-2">
+          <div className="flex gap-1">
+            {MAP_EXPORT_FORMATS.map(format => (
+              <Button
+                key={format}
+                variant={options.format === format ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setOptions({ ...options, format })}
+                className="flex-1 h-7 text-xs"
+              >
+                {MAP_EXPORT_FORMAT_LABELS[format]}
+              </Button>
+            ))}
+          </div>
+
+          {options.format === 'png' ? (
+            <label className="flex items-center justify-between gap-2 text-muted-foreground">
+              解析度
+              <select
+                value={options.scale}
+                onChange={(e) => setOptions({ ...options, scale: Number(e.target.value) })}
+                className="border rounded px-2 py-1 bg-background text-foreground text-xs"
+              >
+                {MAP_EXPORT_SCALES.map(scale => (
+                  <option key={scale} value={scale}>{scale}×</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <p className="text-muted-foreground">以行政區界線繪製，不含底圖</p>
+          )}
+
+          <Button size="sm" onClick={handleExport} disabled={exporting} className="w-full h-7 gap-2 text-xs">
+            {exporting && <Loader2 className="w-3 h-3 animate-spin" />}
+            {exporting ? '匯出中…' : '下載'}
+          </Button>
+          {error && <p className="text-destructive">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import maplibregl from 'maplibre-gl';
+import { NotificationRecord } from '@/types/notify';
+import type { TownInfo } from '@/utils/regionMatcher';
+import { classifyNotification } from '@/utils/notificationCategory';
+import { NotificationCategoryBadge } from '@/components/NotificationCategoryBadge';
+
+interface MapPopupProps {
+  map: maplibregl.Map;
+  lngLat: [number, number];
+  // 使用者按下關閉按鈕時呼叫
+  onClose?: () => void;
+  closeButton?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// 以 React 渲染內容的地圖彈出視窗，文字一律以 React 節點輸出，不經過 HTML 字串
+export function MapPopup({ map, lngLat, onClose, closeButton = true, className, children }: MapPopupProps) {
+  const [container] = useState(() => document.createElement('div'));
+  const popupRef = useRef<maplibregl.Popup | null>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const lngLatRef = useRef(lngLat);
+  lngLatRef.current = lngLat;
+
+  useEffect(() => {
+    const popup = new maplibregl.Popup({ closeButton, closeOnClick: false, maxWidth: '320px', className })
+      .setDOMContent(container)
+      .setLngLat(lngLatRef.current)
+      .addTo(map);
+    const handleClose = () => onCloseRef.current?.();
+    popup.on('close', handleClose);
+    popupRef.current = popup;
+
+    return () => {
+      // 卸載時移除不觸發 onClose
+      popup.off('close', handleClose);
+      popup.remove();
+      popupRef.current = null;
+    };
+  }, [map, container, closeButton, className]);
+
+  const [lon, lat] = lngLat;
+  useEffect(() => {
+    popupRef.current?.setLngLat([lon, lat]);
+  }, [lon, lat]);
+
+  return createPortal(children, container);
+}
+
+// 鄉鎮提示：名稱、代碼與預警分區，detail 為各圖層的補充資訊
+export function TownTooltipContent({ town, detail }: { town: TownInfo; detail?: React.ReactNode }) {
+  return (
+    <div className="text-xs text-popover-foreground space-y-0.5">
+      <div className="font-semibold text-sm">{town.name}</div>
+      <div className="text-muted-foreground">代碼 {town.code} · {town.area}</div>
+      {detail && <div className="pt-1">{detail}</div>}
+    </div>
+  );
+}
+
+// 點擊通知範圍時的內容，多則通知重疊時依序列出
+export function NotificationPopupContent({
+  notifications,
+  town
+}: {
+  notifications: NotificationRecord[];
+  town?: TownInfo | null;
+}) {
+  return (
+    <div className="p-1 max-h-72 overflow-y-auto space-y-3">
+      {town && <div className="text-xs text-muted-foreground">{town.name}（{town.code}）</div>}
+      {notifications.map(notification => (
+        <div key={notification.id}>
+          <NotificationCategoryBadge category={classifyNotification(notification)} className="mb-1" />
+          <h4 className="font-semibold text-sm text-popover-foreground">{notification.title}</h4>
+          <p className="text-xs text-popover-foreground/80 mt-1 whitespace-pre-line">{notification.body}</p>
+          <p className="text-xs text-muted-foreground mt-2">
+            {new Date(notification.timestamp).toLocaleString('zh-TW')}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,189 +1,317 @@
 'use client';
 
-import { useEffect, useRef, useMemo, useCallback } from 'react';
+import { useEffect, useRef, useMemo, useCallback, useState } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
+import { bbox, distance } from '@turf/turf';
+import { useTheme } from 'next-themes';
 import { NotificationRecord } from '@/types/notify';
+import { getGeometryRings } from '@/utils/notificationNormalizer';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { MapPopup, NotificationPopupContent, TownTooltipContent } from '@/components/MapPopup';
+import { MapExportComponent, MapExportOptions } from '@/components/MapExport';
+import { useDataContext } from '@/contexts/DataContext';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import { DIAGNOSTIC_POINT_COLORS, DiagnosticPointStatus, getGridSampleStatus } from '@/components/RegionMatchDiagnosticsPanel';
+import { getTownDirectory, RegionMatchDiagnostics, TownMatch } from '@/utils/regionMatcher';
+import { getSelectionAreaGeometry, SelectionArea, SelectionDrawMode } from '@/utils/regionSelection';
+import { DENSITY_PALETTES, DensityMapData, getDensityFillColorExpression } from '@/utils/densityMap';
+import { getCodeOpacityExpression, PlaybackFrame } from '@/utils/timelinePlayback';
+import {
+  applyMapTheme,
+  createMapStyle,
+  getBoundaryLayers,
+  LOCAL_BOUNDARIES_URL,
+  MAP_RASTER_TILES_URL,
+  MAP_THEME_COLORS,
+  MapTheme,
+  resolveBoundarySource
+} from '@/lib/map-style';
+import { getTownCodesBounds, TownBounds, unionBounds } from '@/utils/townBounds';
+import { getCompareCodeColorExpression, getComparePolygons, NotificationCompareData } from '@/utils/notificationCompare';
+import { NOTIFICATION_CATEGORY_LABELS, NOTIFICATION_SEVERITIES } from '@/utils/notificationCategory';
+import {
+  getCodeSeverityColorExpression,
+  getNotificationColors,
+  getSeverityColorExpression,
+  NOTIFICATION_SEVERITY_LABELS
+} from '@/utils/notificationPalette';
+import type { BoundaryFeatureCollections } from '@/utils/townBoundaries';
+import {
+  createMapExportCaption,
+  createMapExportSvg,
+  downloadBlob,
+  getMapExportAttribution,
+  getMapExportFilename,
+  getMapExportTownNames,
+  renderMapExportPng
+} from '@/utils/mapExport';
 
 interface MapViewProps {
   notification: NotificationRecord | null;
+  // 多邊形涵蓋的各鄉鎮明細
+  townMatches?: TownMatch[];
+  // 匹配診斷：在地圖上顯示網格抽樣點與備用方案的中心點
+  diagnostics?: RegionMatchDiagnostics | null;
+  // 顯示在圖例下方的面板（例如匹配診斷），取代鄉鎮明細
+  children?: React.ReactNode;
+  // 地區篩選的繪製範圍
+  selectionArea?: SelectionArea | null;
+  // 繪製模式：點擊地圖繪製多邊形或圓形篩選範圍
+  drawMode?: SelectionDrawMode | null;
+  onAreaDrawn?: (area: SelectionArea) => void;
+  onDrawCancel?: () => void;
+  // 地點查詢：標示查詢點，點擊地圖時回傳經緯度
+  marker?: [number, number] | null;
+  onMapClick?: (lngLat: [number, number]) => void;
+  // 密度圖：依通知數為各鄉鎮著色，點擊鄉鎮時回傳鄉鎮代碼
+  density?: DensityMapData | null;
+  onTownClick?: (code: number) => void;
+  // 時間軸播放：目前時間正在顯示的通知
+  playbackFrame?: PlaybackFrame | null;
+  // 顯示在地圖下方的面板（例如時間軸）
+  footer?: React.ReactNode;
+  // 多則通知比較：以不同顏色同時顯示，並標示聯集與交集
+  compare?: NotificationCompareData | null;
 }
 
-export default function MapView({ notification }: MapViewProps) {
+const SELECTION_AREA_COLOR = '#f59e0b';
+
+// 比較模式的聯集與交集以主題的對比色標示
+const COMPARE_OVERLAP_LAYERS: Array<[string, string]> = [
+  ['compare-union-line', 'line-color'],
+  ['compare-intersection-fill', 'fill-color'],
+  ['compare-intersection-line', 'line-color']
+];
+
+// 點擊位置與頂點距離小於此像素數時視為同一點（完成多邊形或忽略雙擊產生的重複頂點）
+const DRAW_SNAP_PIXELS = 8;
+
+// 清除指定的圖層與資料來源
+function removeLayersAndSource(map: maplibregl.Map, layerIds: string[], sourceId: string) {
+  layerIds.forEach(id => {
+    if (map.getLayer(id)) map.removeLayer(id);
+  });
+  if (map.getSource(sourceId)) map.removeSource(sourceId);
+}
+
+// 已觸發 'load' 事件的地圖：此後即可增刪圖層
+// loaded() 在圖磚載入期間（例如平移時）也是 false，而 'load' 只觸發一次，不能用來判斷
+const readyMaps = new WeakSet<maplibregl.Map>();
+
+// 地圖可增刪圖層時立即執行，否則等待 'load'；回傳取消等待的函數
+function whenMapReady(map: maplibregl.Map, callback: () => void): () => void {
+  if (readyMaps.has(map)) {
+    callback();
+    return () => {};
+  }
+  map.once('load', callback);
+  return () => {
+    map.off('load', callback);
+  };
+}
+
+// 滑過時顯示鄉鎮提示的圖層，與點擊時顯示通知內容的圖層
+const TOWN_HOVER_LAYERS = ['density-fill', 'notification-codes-fill', 'compare-codes-fill'];
+const NOTIFICATION_CLICK_LAYERS = ['notification-polygons-fill', 'notification-codes-fill', 'compare-polygons-fill', 'compare-codes-fill'];
+
+type LegendSwatchShape = 'fill' | 'dot' | 'dashed' | 'outline';
+
+function LegendSwatch({ color, label, shape = 'fill' }: { color: string; label: React.ReactNode; shape?: LegendSwatchShape }) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      {shape === 'dashed' || shape === 'outline' ? (
+        <div
+          className={`w-3 h-3 border-2 flex-shrink-0 ${shape === 'dashed' ? 'rounded-full border-dashed' : 'rounded-sm'}`}
+          style={{ borderColor: color }}
+        ></div>
+      ) : (
+        <div className={`w-3 h-3 flex-shrink-0 ${shape === 'dot' ? 'rounded-full' : 'rounded-sm'}`} style={{ backgroundColor: color }}></div>
+      )}
+      <span>{label}</span>
+    </div>
+  );
+}
+
+// 面積小於 0.01 平方公里時以平方公尺顯示
+function formatArea(area: number): string {
+  return area < 10000 ? `${Math.round(area)} m²` : `${(area / 1e6).toFixed(2)} km²`;
+}
+
+export default function MapView({
+  notification,
+  townMatches,
+  diagnostics,
+  children,
+  selectionArea,
+  drawMode,
+  onAreaDrawn,
+  onDrawCancel,
+  marker,
+  onMapClick,
+  density,
+  onTownClick,
+  playbackFrame,
+  footer,
+  compare
+}: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
+  // 繪製回呼可能每次渲染都不同，以 ref 保存避免重新綁定地圖事件
+  const drawCallbacks = useRef({ onAreaDrawn, onDrawCancel });
+  drawCallbacks.current = { onAreaDrawn, onDrawCancel };
+  const drawModeRef = useRef(drawMode);
+  drawModeRef.current = drawMode;
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  const onTownClickRef = useRef(onTownClick);
+  onTownClickRef.current = onTownClick;
+  const markerRef = useRef<maplibregl.Marker | null>(null);
+  const { regionData } = useDataContext();
+  const townDirectory = useMemo(() => regionData ? getTownDirectory(regionData) : new Map(), [regionData]);
+  // 滑過的鄉鎮與點擊時的通知彈出視窗
+  const [townHover, setTownHover] = useState<{ code: number; lngLat: [number, number] } | null>(null);
+  const [notificationPopup, setNotificationPopup] = useState<{
+    lngLat: [number, number];
+    notifications: NotificationRecord[];
+    code: number | null;
+  } | null>(null);
+  // 地圖事件中讀取目前顯示的資料
+  const popupSourceRef = useRef({ notification, compare });
+  popupSourceRef.current = { notification, compare };
+  // 底圖的行政區界線來源在建立地圖時決定
+  const boundarySource = useMemo(() => resolveBoundarySource(), []);
+  const boundaryLayers = useMemo(() => getBoundaryLayers(boundarySource), [boundarySource]);
+  // 底圖跟隨網站主題；建立地圖時使用當下的主題，之後只更新圖層顏色
+  const { resolvedTheme } = useTheme();
+  const mapTheme: MapTheme = resolvedTheme === 'light' ? 'light' : 'dark';
+  const mapThemeRef = useRef(mapTheme);
+  mapThemeRef.current = mapTheme;
+  const { palette, colors: paletteColors } = usePaletteContext();
+  const notificationColors = useMemo(
+    () => notification ? getNotificationColors(notification, palette) : null,
+    [notification, palette]
+  );
+  // SVG 匯出使用的行政區界線，第一次匯出時才下載
+  const exportBoundariesRef = useRef<Promise<BoundaryFeatureCollections> | null>(null);
 
   useEffect(() => {
     if (!mapContainer.current) return;
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'osm-tiles': {
-            type: 'raster',
-            tiles: [
-              'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
-            ],
-            tileSize: 256,
-            attribution: '© OpenStreetMap contributors',
-          },
-          map: {
-            type: 'vector',
-            url: 'https://lb.exptech.dev/api/v1/map/tiles/tiles.json',
-          },
-        },
-        layers: [
-          {
-            id: 'osm-tiles',
-            type: 'raster',
-            source: 'osm-tiles',
-            paint: {
-              'raster-brightness-min': 0,
-              'raster-brightness-max': 0.3,
-              'raster-contrast': 0.3,
-              'raster-saturation': -0.5,
-            },
-          },
-          {
-            'id': 'county-outline',
-            'type': 'line',
-            'source': 'map',
-            'source-layer': 'city',
-            'paint': { 
-              'line-color': '#64748b', 
-              'line-width': 1.5,
-              'line-opacity': 0.8
-            },
-          },
-          {
-            'id': 'town-outline',
-            'type': 'line',
-            'source': 'map',
-            'source-layer': 'town',
-            'paint': { 
-              'line-color': '#475569', 
-              'line-width': 0.8,
-              'line-opacity': 0.6
-            },
-          }
-        ],
-      },
+      style: createMapStyle(boundarySource, mapThemeRef.current),
       center: [120.9605, 23.6978], // 台灣中心
       zoom: window.innerWidth < 768 ? 6.5 : 7, // iPhone 較小螢幕縮小初始縮放
     });
 
+    const createdMap = map.current;
+    createdMap.once('load', () => readyMaps.add(createdMap));
+
     map.current.addControl(new maplibregl.NavigationControl(), 'top-right');
 
     map.current.on('error', () => {
       void 0
     });
 
+    // 地點查詢模式下點擊地圖（繪製範圍時除外）
+    map.current.on('click', (e) => {
+      if (drawModeRef.current) return;
+      onMapClickRef.current?.([e.lngLat.lng, e.lngLat.lat]);
+    });
+
     return () => {
       map.current?.remove();
     };
-  }, []);
+  }, [boundarySource]);
 
-  // 緩存處理過的 GeoJSON 數據
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const applyTheme = () => {
+      applyMapTheme(currentMap, mapTheme);
+      COMPARE_OVERLAP_LAYERS.forEach(([layerId, property]) => {
+        if (currentMap.getLayer(layerId)) {
+          currentMap.setPaintProperty(layerId, property, MAP_THEME_COLORS[mapTheme].contrast);
+        }
+      });
+    };
+
+    // 樣式載入後即可更新顏色，不需等待圖磚
+    return whenMapReady(currentMap, applyTheme);
+  }, [mapTheme]);
+
+  // 緩存處理過的 GeoJSON 數據（多邊形已在匯入時正規化為標準幾何）
   const processedGeoJSON = useMemo(() => {
     if (!notification?.Polygons?.length) return null;
 
-    const features = notification.Polygons.filter((polygon) => {
-      // 檢查是否是 GeoJSON Feature 格式
-      if ('type' in polygon && polygon.type === 'Feature' && 'geometry' in polygon && polygon.geometry) {
-        return polygon.geometry.coordinates && Array.isArray(polygon.geometry.coordinates);
-      }
-      // 檢查是否是直接的座標格式
-      if ('coordinates' in polygon) {
-        return polygon.coordinates && Array.isArray(polygon.coordinates);
-      }
-      return false;
-    }).map((polygon, index) => {
-      // 如果是 GeoJSON Feature 格式，直接使用
-      if ('type' in polygon && polygon.type === 'Feature' && 'geometry' in polygon && polygon.geometry) {
-        return {
-          ...polygon,
-          properties: {
-            ...polygon.properties,
-            id: index,
-            notification: notification.title,
-          }
-        };
-      }
-      // 如果是直接座標格式，轉換為 GeoJSON Feature
-      if ('coordinates' in polygon) {
-        return {
+    const features = notification.Polygons.map((geometry, index) => ({
+      type: 'Feature' as const,
+      properties: {
+        id: index,
+        notification: notification.title,
+      },
+      geometry,
+    }));
+
+    return {
+      type: 'FeatureCollection' as const,
+      features,
+    };
+  }, [notification?.Polygons, notification?.title]);
+
+  // 診斷用的網格抽樣點，以狀態決定顏色
+  const diagnosticsGeoJSON = useMemo(() => {
+    if (!diagnostics) return null;
+
+    const features = diagnostics.polygons.flatMap(polygon => {
+      const points = polygon.samples.map(sample => ({
+        type: 'Feature' as const,
+        properties: { status: getGridSampleStatus(sample) as DiagnosticPointStatus },
+        geometry: { type: 'Point' as const, coordinates: [sample.lon, sample.lat] }
+      }));
+
+      if (polygon.center && (polygon.method === 'nearest' || polygon.method === 'none')) {
+        points.push({
           type: 'Feature' as const,
-          properties: {
-            id: index,
-            notification: notification.title,
-          },
-          geometry: {
-            type: 'Polygon' as const,
-            coordinates: polygon.coordinates,
-          },
-        };
+          properties: { status: 'center' as DiagnosticPointStatus },
+          geometry: { type: 'Point' as const, coordinates: polygon.center }
+        });
       }
-      // 預設情況
-      return {
-        type: 'Feature' as const,
-        properties: {
-          id: index,
-          notification: notification.title,
-        },
-        geometry: {
-          type: 'Polygon' as const,
-          coordinates: [],
-        },
-      };
-    });
 
-    if (features.length === 0) return null;
+      return points;
+    });
 
     return {
       type: 'FeatureCollection' as const,
       features,
     };
-  }, [notification?.Polygons, notification?.title]);
+  }, [diagnostics]);
 
   // 緩存邊界計算
+  // 聚焦範圍：鄉鎮代碼使用預先計算的外框表，並與多邊形範圍合併
   const notificationBounds = useMemo(() => {
     if (!notification) return null;
 
-    // 優先使用 codes 邊界
-    if (notification.codes && notification.codes.length > 0) {
-      return { type: 'codes' as const, codes: notification.codes };
+    const bounds = new maplibregl.LngLatBounds();
+    const codesBounds = getTownCodesBounds(notification.codes ?? []);
+    if (codesBounds) {
+      bounds.extend(codesBounds);
     }
 
-    // 使用多邊形邊界
-    if (notification.Polygons && notification.Polygons.length > 0) {
-      const bounds = new maplibregl.LngLatBounds();
-      notification.Polygons.forEach((polygon) => {
-        let coordinates: number[][][];
-        if ('coordinates' in polygon) {
-          coordinates = polygon.coordinates;
-        } else if (polygon.geometry && 'coordinates' in polygon.geometry) {
-          coordinates = polygon.geometry.coordinates;
-        } else {
-          return;
-        }
-        
-        coordinates.forEach(ring => {
-          ring.forEach(coord => {
-            if (coord && coord.length >= 2) {
-              bounds.extend([coord[0], coord[1]]);
-            }
-          });
+    notification.Polygons?.forEach((geometry) => {
+      getGeometryRings(geometry).forEach(ring => {
+        ring.forEach(coord => {
+          if (coord && coord.length >= 2) {
+            bounds.extend([coord[0], coord[1]]);
+          }
         });
       });
-      
-      if (!bounds.isEmpty()) {
-        return { type: 'polygon' as const, bounds };
-      }
-    }
+    });
 
-    return null;
+    if (bounds.isEmpty()) return null;
+    return { bounds, codesOnly: !notification.Polygons?.length };
   }, [notification]);
 
   // 清除地圖圖層的函數
@@ -211,7 +339,13 @@ export default function MapView({ notification }: MapViewProps) {
   }, []);
 
   useEffect(() => {
-    if (!map.current || !notification) return;
+    if (!map.current) return;
+    
+    // 取消選取（例如切換到密度圖）時清除上一則通知的圖層
+    if (!notification || !notificationColors) {
+      if (readyMaps.has(map.current)) clearMapLayers();
+      return;
+    }
     
     const processNotification = () => {
       if (!map.current) return;
@@ -226,11 +360,10 @@ export default function MapView({ notification }: MapViewProps) {
             map.current!.addLayer({
               id: 'notification-codes-fill',
               type: 'fill',
-              source: 'map',
-              'source-layer': 'town',
+              ...boundaryLayers.town,
               filter: ['in', ['get', 'CODE'], ['literal', notification.codes]],
               paint: {
-                'fill-color': '#60a5fa',
+                'fill-color': notificationColors.fill,
                 'fill-opacity': 0.5,
               },
             });
@@ -238,12 +371,11 @@ export default function MapView({ notification }: MapViewProps) {
             map.current!.addLayer({
               id: 'notification-codes-line',
               type: 'line',
-              source: 'map',
-              'source-layer': 'town',
+              ...boundaryLayers.town,
               filter: ['in', ['get', 'CODE'], ['literal', notification.codes]],
               paint: {
-                'line-color': '#3b82f6',
-                'line-width': 2.5,
+                'line-color': notificationColors.line,
+                'line-width': paletteColors.lineWidth + 0.5,
                 'line-opacity': 0.8,
               },
             });
@@ -253,77 +385,21 @@ export default function MapView({ notification }: MapViewProps) {
         }
       };
 
-      // 處理聚焦邏輯 - 使用緩存的邊界數據
+      // 聚焦到預先計算的範圍，不受圖磚載入狀態影響
       const handleFocus = () => {
         if (!notificationBounds) return;
 
-        // 先縮小到台灣全景
-        map.current!.flyTo({
-          center: [120.9605, 23.6978],
-          zoom: window.innerWidth < 768 ? 6.5 : 7,
-          duration: 300,
-        });
-
-          if (notificationBounds.type === 'codes') {
-            const focusToCodes = () => {
-              try {
-                const features = map.current!.querySourceFeatures('map', {
-                  sourceLayer: 'town',
-                  filter: ['in', ['get', 'CODE'], ['literal', notificationBounds.codes]]
-                });
-                
-                if (features.length > 0) {
-                  const bounds = new maplibregl.LngLatBounds();
-                  features.forEach(feature => {
-                    if (feature.geometry.type === 'Polygon') {
-                      feature.geometry.coordinates[0].forEach(coord => {
-                        bounds.extend(coord as [number, number]);
-                      });
-                    } else if (feature.geometry.type === 'MultiPolygon') {
-                      feature.geometry.coordinates.forEach(polygon => {
-                        polygon[0].forEach(coord => {
-                          bounds.extend(coord as [number, number]);
-                        });
-                      });
-                    }
-                  });
-                  
-                  if (!bounds.isEmpty()) {
-                    const padding = window.innerWidth < 768 ? 30 : 60;
-                    const maxZoom = window.innerWidth < 768 ? 10 : 11;
-                    map.current!.fitBounds(bounds, { 
-                      padding, 
-                      maxZoom,
-                      duration: 300
-                    });
-                    return true;
-                  }
-                }
-              } catch (error) {
-                console.warn('Failed to focus on codes area:', error);
-              }
-              return false;
-            };
-            
-            focusToCodes();
-          } else if (notificationBounds.type === 'polygon' && notificationBounds.bounds) {
-            // 直接使用預計算的邊界
-            handlePolygonFocus(notificationBounds.bounds);
-          }
-      };
-
-      // 聚焦到多邊形區域
-      const handlePolygonFocus = (bounds: maplibregl.LngLatBounds) => {
         try {
-          const padding = window.innerWidth < 768 ? 30 : 60;
-          const maxZoom = window.innerWidth < 768 ? 11 : 12;
-          map.current!.fitBounds(bounds, { 
-            padding,
+          const isMobile = window.innerWidth < 768;
+          // 只有鄉鎮代碼時範圍通常較大，縮放上限較低
+          const maxZoom = notificationBounds.codesOnly ? (isMobile ? 10 : 11) : (isMobile ? 11 : 12);
+          map.current!.fitBounds(notificationBounds.bounds, {
+            padding: isMobile ? 30 : 60,
             maxZoom,
             duration: 300
           });
         } catch (error) {
-          console.warn('Failed to focus on polygon area:', error);
+          console.warn('Failed to focus on notification area:', error);
         }
       };
 
@@ -342,7 +418,7 @@ export default function MapView({ notification }: MapViewProps) {
         type: 'fill',
         source: 'notification-polygons',
         paint: {
-          'fill-color': notification.critical ? '#ef4444' : '#3b82f6',
+          'fill-color': notificationColors.fill,
           'fill-opacity': 0.3,
         },
       });
@@ -352,49 +428,13 @@ export default function MapView({ notification }: MapViewProps) {
         type: 'line',
         source: 'notification-polygons',
         paint: {
-          'line-color': notification.critical ? '#dc2626' : '#2563eb',
-          'line-width': 2,
+          'line-color': notificationColors.line,
+          'line-width': paletteColors.lineWidth,
         },
       });
 
-
-      // 添加點擊事件
-      const clickHandler = (e: maplibregl.MapMouseEvent) => {
-        const features = map.current!.queryRenderedFeatures(e.point, {
-          layers: ['notification-polygons-fill'],
-        });
-
-        if (features.length > 0) {
-          new maplibregl.Popup()
-            .setLngLat(e.lngLat)
-            .setHTML(`
-              <div class="p-2">
-                <h4 class="font-semibold text-sm">${notification.title}</h4>
-                <p class="text-xs text-gray-600 mt-1">${notification.body}</p>
-                <p class="text-xs text-gray-500 mt-2">
-                  ${new Date(notification.timestamp).toLocaleString('zh-TW')}
-                </p>
-              </div>
-            `)
-            .addTo(map.current!);
-        }
-      };
-
-      map.current.on('click', 'notification-polygons-fill', clickHandler);
-
-      // 鼠標樣式
-      map.current.on('mouseenter', 'notification-polygons-fill', () => {
-        map.current!.getCanvas().style.cursor = 'pointer';
-      });
-
-      map.current.on('mouseleave', 'notification-polygons-fill', () => {
-        map.current!.getCanvas().style.cursor = '';
-      });
-
       return () => {
         if (map.current) {
-          map.current.off('click', 'notification-polygons-fill', clickHandler);
-          
           // 清除 codes 圖層
           try {
             if (map.current.getLayer('notification-codes-fill')) {
@@ -411,19 +451,616 @@ export default function MapView({ notification }: MapViewProps) {
     };
     
     // 確保地圖已載入
-    if (!map.current.loaded()) {
-      map.current.once('load', () => {
-        processNotification();
+    return whenMapReady(map.current, processNotification);
+  }, [notification, notificationColors, paletteColors, clearMapLayers, notificationBounds, processedGeoJSON, boundaryLayers]);
+
+  // 顯示或清除診斷抽樣點圖層
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const renderDiagnostics = () => {
+      if (currentMap.getLayer('diagnostic-samples')) {
+        currentMap.removeLayer('diagnostic-samples');
+      }
+      if (currentMap.getSource('diagnostic-samples')) {
+        currentMap.removeSource('diagnostic-samples');
+      }
+      if (!diagnosticsGeoJSON) return;
+
+      currentMap.addSource('diagnostic-samples', {
+        type: 'geojson',
+        data: diagnosticsGeoJSON,
+      });
+
+      currentMap.addLayer({
+        id: 'diagnostic-samples',
+        type: 'circle',
+        source: 'diagnostic-samples',
+        paint: {
+          'circle-radius': ['match', ['get', 'status'], 'center', 6, 3],
+          'circle-color': [
+            'match', ['get', 'status'],
+            'hit', DIAGNOSTIC_POINT_COLORS.hit,
+            'empty', DIAGNOSTIC_POINT_COLORS.empty,
+            'center', DIAGNOSTIC_POINT_COLORS.center,
+            DIAGNOSTIC_POINT_COLORS.outside
+          ],
+          'circle-stroke-width': 1,
+          'circle-stroke-color': '#0f172a',
+        },
+      });
+    };
+
+    return whenMapReady(currentMap, renderDiagnostics);
+  }, [diagnosticsGeoJSON]);
+
+  // 密度圖：鄉鎮著色與多邊形中心點熱區
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const handleClick = (e: maplibregl.MapLayerMouseEvent) => {
+      const code = Number(e.features?.[0]?.properties?.CODE);
+      if (code && !drawModeRef.current) onTownClickRef.current?.(code);
+    };
+
+    const renderDensity = () => {
+      removeLayersAndSource(currentMap, ['density-heatmap'], 'density-centroids');
+      if (currentMap.getLayer('density-fill')) currentMap.removeLayer('density-fill');
+      if (!density) return;
+
+      // 放在縣市界線下方，保留行政區邊界
+      currentMap.addLayer({
+        id: 'density-fill',
+        type: 'fill',
+        ...boundaryLayers.town,
+        paint: {
+          'fill-color': getDensityFillColorExpression(density.counts, density.classes),
+          'fill-opacity': 0.7,
+        },
+      }, 'county-outline');
+
+      if (density.centroids) {
+        const colors = DENSITY_PALETTES[density.palette].colors;
+        currentMap.addSource('density-centroids', {
+          type: 'geojson',
+          data: density.centroids,
+        });
+        currentMap.addLayer({
+          id: 'density-heatmap',
+          type: 'heatmap',
+          source: 'density-centroids',
+          paint: {
+            'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 6, 12, 11, 30],
+            'heatmap-opacity': 0.8,
+            'heatmap-color': [
+              'interpolate', ['linear'], ['heatmap-density'],
+              0, 'rgba(0, 0, 0, 0)',
+              ...colors.flatMap((color, index) => [(index + 1) / colors.length, color])
+            ],
+          },
+        });
+      }
+
+      currentMap.on('click', 'density-fill', handleClick);
+    };
+
+    const cancelRender = whenMapReady(currentMap, renderDensity);
+
+    return () => {
+      cancelRender();
+      currentMap.off('click', 'density-fill', handleClick);
+    };
+  }, [density, boundaryLayers]);
+
+  // 時間軸播放：每個畫面只更新資料與不透明度，不重建圖層
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const renderPlayback = () => {
+      if (!playbackFrame) {
+        removeLayersAndSource(currentMap, ['playback-polygons-fill', 'playback-polygons-line'], 'playback-polygons');
+        if (currentMap.getLayer('playback-codes-fill')) currentMap.removeLayer('playback-codes-fill');
+        return;
+      }
+
+      const codeOpacity = getCodeOpacityExpression(playbackFrame.codeOpacity, 0.5);
+      const codeColor = getCodeSeverityColorExpression(playbackFrame.codeSeverity, palette);
+      const severityColor = getSeverityColorExpression(palette);
+      const source = currentMap.getSource('playback-polygons') as maplibregl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(playbackFrame.polygons);
+        currentMap.setPaintProperty('playback-codes-fill', 'fill-opacity', codeOpacity);
+        currentMap.setPaintProperty('playback-codes-fill', 'fill-color', codeColor);
+        currentMap.setPaintProperty('playback-polygons-fill', 'fill-color', severityColor);
+        currentMap.setPaintProperty('playback-polygons-line', 'line-color', severityColor);
+        return;
+      }
+
+      // 鄉鎮代碼通知放在縣市界線下方
+      currentMap.addLayer({
+        id: 'playback-codes-fill',
+        type: 'fill',
+        ...boundaryLayers.town,
+        paint: {
+          'fill-color': codeColor,
+          'fill-opacity': codeOpacity,
+        },
+      }, 'county-outline');
+
+      currentMap.addSource('playback-polygons', {
+        type: 'geojson',
+        data: playbackFrame.polygons,
+      });
+
+      currentMap.addLayer({
+        id: 'playback-polygons-fill',
+        type: 'fill',
+        source: 'playback-polygons',
+        paint: {
+          'fill-color': severityColor,
+          'fill-opacity': ['*', ['get', 'opacity'], 0.4],
+        },
+      });
+
+      currentMap.addLayer({
+        id: 'playback-polygons-line',
+        type: 'line',
+        source: 'playback-polygons',
+        paint: {
+          'line-color': severityColor,
+          'line-opacity': ['get', 'opacity'],
+          'line-width': paletteColors.lineWidth,
+        },
+      });
+    };
+
+    return whenMapReady(currentMap, renderPlayback);
+  }, [playbackFrame, palette, paletteColors, boundaryLayers]);
+
+  // 多則通知比較：各通知以自己的顏色繪製，聯集以虛線外框、交集以深色標示
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const renderCompare = () => {
+      removeLayersAndSource(currentMap, ['compare-polygons-fill', 'compare-polygons-line'], 'compare-polygons');
+      removeLayersAndSource(currentMap, ['compare-union-line'], 'compare-union');
+      removeLayersAndSource(currentMap, ['compare-intersection-fill', 'compare-intersection-line'], 'compare-intersection');
+      if (currentMap.getLayer('compare-codes-fill')) currentMap.removeLayer('compare-codes-fill');
+      if (!compare || compare.items.length === 0) return;
+
+      currentMap.addLayer({
+        id: 'compare-codes-fill',
+        type: 'fill',
+        ...boundaryLayers.town,
+        paint: {
+          'fill-color': getCompareCodeColorExpression(compare.items),
+          'fill-opacity': 0.35,
+        },
+      }, 'county-outline');
+
+      currentMap.addSource('compare-polygons', {
+        type: 'geojson',
+        data: getComparePolygons(compare.items),
+      });
+
+      currentMap.addLayer({
+        id: 'compare-polygons-fill',
+        type: 'fill',
+        source: 'compare-polygons',
+        paint: {
+          'fill-color': ['get', 'color'],
+          'fill-opacity': 0.2,
+        },
+      });
+
+      currentMap.addLayer({
+        id: 'compare-polygons-line',
+        type: 'line',
+        source: 'compare-polygons',
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': paletteColors.lineWidth,
+        },
+      });
+
+      const { union, intersection } = compare.overlap;
+      const overlapColor = MAP_THEME_COLORS[mapThemeRef.current].contrast;
+      if (union && compare.items.length > 1) {
+        currentMap.addSource('compare-union', { type: 'geojson', data: union });
+        currentMap.addLayer({
+          id: 'compare-union-line',
+          type: 'line',
+          source: 'compare-union',
+          paint: {
+            'line-color': overlapColor,
+            'line-width': 1.5,
+            'line-dasharray': [3, 2],
+          },
+        });
+      }
+
+      if (intersection) {
+        currentMap.addSource('compare-intersection', { type: 'geojson', data: intersection });
+        currentMap.addLayer({
+          id: 'compare-intersection-fill',
+          type: 'fill',
+          source: 'compare-intersection',
+          paint: {
+            'fill-color': overlapColor,
+            'fill-opacity': 0.35,
+          },
+        });
+        currentMap.addLayer({
+          id: 'compare-intersection-line',
+          type: 'line',
+          source: 'compare-intersection',
+          paint: {
+            'line-color': overlapColor,
+            'line-width': 2.5,
+          },
+        });
+      }
+
+      // 聚焦到所有多邊形與鄉鎮的範圍
+      const codesBounds = getTownCodesBounds(compare.items.flatMap(({ notification }) => notification.codes));
+      const compareBounds = unionBounds([
+        ...(union ? [bbox(union) as TownBounds] : []),
+        ...(codesBounds ? [codesBounds] : [])
+      ]);
+      if (compareBounds) {
+        currentMap.fitBounds(compareBounds, {
+          padding: window.innerWidth < 768 ? 30 : 60,
+          maxZoom: window.innerWidth < 768 ? 11 : 12,
+          duration: 300,
+        });
+      }
+    };
+
+    return whenMapReady(currentMap, renderCompare);
+  }, [compare, paletteColors, boundaryLayers]);
+
+  // 地圖提示與彈出視窗：滑過鄉鎮顯示鄉鎮資訊，點擊通知範圍顯示通知內容
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const queryLayers = (point: maplibregl.PointLike, layerIds: string[]) => {
+      const layers = layerIds.filter(id => currentMap.getLayer(id));
+      return layers.length > 0 ? currentMap.queryRenderedFeatures(point, { layers }) : [];
+    };
+
+    const getFeatureCode = (feature: maplibregl.MapGeoJSONFeature) => Number(feature.properties?.CODE) || null;
+
+    const handleMouseMove = (e: maplibregl.MapMouseEvent) => {
+      if (drawModeRef.current) {
+        setTownHover(null);
+        return;
+      }
+
+      const { compare: currentCompare } = popupSourceRef.current;
+      // 比較圖層涵蓋所有鄉鎮，只在比較的通知包含該鄉鎮時顯示
+      const townFeature = queryLayers(e.point, TOWN_HOVER_LAYERS).find(feature => {
+        const code = getFeatureCode(feature);
+        if (!code) return false;
+        if (feature.layer.id !== 'compare-codes-fill') return true;
+        return currentCompare?.items.some(item => item.notification.codes.includes(code)) ?? false;
+      });
+      const code = townFeature ? getFeatureCode(townFeature) : null;
+
+      setTownHover(previous => {
+        if (!code) return null;
+        return previous?.code === code ? previous : { code, lngLat: [e.lngLat.lng, e.lngLat.lat] };
+      });
+
+      const clickable = code !== null || queryLayers(e.point, NOTIFICATION_CLICK_LAYERS).length > 0;
+      currentMap.getCanvas().style.cursor = clickable ? 'pointer' : '';
+    };
+
+    const handleMouseOut = () => setTownHover(null);
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      if (drawModeRef.current) return;
+
+      const { notification: currentNotification, compare: currentCompare } = popupSourceRef.current;
+      const found = new Map<string, NotificationRecord>();
+      let code: number | null = null;
+
+      for (const feature of queryLayers(e.point, NOTIFICATION_CLICK_LAYERS)) {
+        const featureCode = getFeatureCode(feature);
+        switch (feature.layer.id) {
+          case 'notification-polygons-fill':
+          case 'notification-codes-fill':
+            if (currentNotification) found.set(currentNotification.id, currentNotification);
+            if (feature.layer.id === 'notification-codes-fill') code ??= featureCode;
+            break;
+          case 'compare-polygons-fill': {
+            const item = currentCompare?.items.find(item => item.notification.id === feature.properties?.id);
+            if (item) found.set(item.notification.id, item.notification);
+            break;
+          }
+          case 'compare-codes-fill': {
+            const items = currentCompare?.items.filter(item => featureCode && item.notification.codes.includes(featureCode)) ?? [];
+            items.forEach(item => found.set(item.notification.id, item.notification));
+            if (items.length > 0) code ??= featureCode;
+            break;
+          }
+        }
+      }
+
+      setNotificationPopup(found.size > 0
+        ? { lngLat: [e.lngLat.lng, e.lngLat.lat], notifications: [...found.values()], code }
+        : null);
+    };
+
+    currentMap.on('mousemove', handleMouseMove);
+    currentMap.on('mouseout', handleMouseOut);
+    currentMap.on('click', handleClick);
+
+    return () => {
+      currentMap.off('mousemove', handleMouseMove);
+      currentMap.off('mouseout', handleMouseOut);
+      currentMap.off('click', handleClick);
+    };
+  }, []);
+
+  // 顯示的資料變更時關閉彈出視窗
+  useEffect(() => {
+    setTownHover(null);
+    setNotificationPopup(null);
+  }, [notification, compare, density]);
+
+  // 顯示地點查詢的標記
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (!marker) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    if (!markerRef.current) {
+      markerRef.current = new maplibregl.Marker({ color: '#f59e0b' });
+    }
+    markerRef.current.setLngLat(marker).addTo(map.current);
+  }, [marker]);
+
+  // 顯示地區篩選的繪製範圍
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap) return;
+
+    const renderSelectionArea = () => {
+      removeLayersAndSource(currentMap, ['selection-area-fill', 'selection-area-line'], 'selection-area');
+      if (!selectionArea) return;
+
+      currentMap.addSource('selection-area', {
+        type: 'geojson',
+        data: { type: 'Feature', properties: {}, geometry: getSelectionAreaGeometry(selectionArea) },
+      });
+
+      currentMap.addLayer({
+        id: 'selection-area-fill',
+        type: 'fill',
+        source: 'selection-area',
+        paint: {
+          'fill-color': SELECTION_AREA_COLOR,
+          'fill-opacity': 0.08,
+        },
+      });
+
+      currentMap.addLayer({
+        id: 'selection-area-line',
+        type: 'line',
+        source: 'selection-area',
+        paint: {
+          'line-color': SELECTION_AREA_COLOR,
+          'line-width': 2,
+          'line-dasharray': [2, 2],
+        },
+      });
+    };
+
+    return whenMapReady(currentMap, renderSelectionArea);
+  }, [selectionArea]);
+
+  // 繪製模式：多邊形逐點點擊，雙擊或點擊起點完成；圓形先點圓心再點半徑；Esc 取消
+  useEffect(() => {
+    const currentMap = map.current;
+    if (!currentMap || !drawMode) return;
+
+    const vertices: [number, number][] = [];
+    let cursor: [number, number] | null = null;
+
+    const updateDraft = () => {
+      const features: GeoJSON.Feature[] = vertices.map(vertex => ({
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Point', coordinates: vertex }
+      }));
+
+      if (drawMode === 'circle' && vertices.length === 1 && cursor) {
+        const radius = distance(vertices[0], cursor, { units: 'kilometers' });
+        if (radius > 0) {
+          features.push({
+            type: 'Feature',
+            properties: {},
+            geometry: getSelectionAreaGeometry({ type: 'circle', center: vertices[0], radius })
+          });
+        }
+      } else if (drawMode === 'polygon' && vertices.length > 0) {
+        features.push({
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'LineString', coordinates: cursor ? [...vertices, cursor] : vertices }
+        });
+      }
+
+      const source = currentMap.getSource('selection-draft') as maplibregl.GeoJSONSource | undefined;
+      source?.setData({ type: 'FeatureCollection', features });
+    };
+
+    const isNearVertex = (point: maplibregl.Point, vertex: [number, number]) => {
+      const projected = currentMap.project(vertex);
+      return Math.hypot(projected.x - point.x, projected.y - point.y) < DRAW_SNAP_PIXELS;
+    };
+
+    const finish = (area: SelectionArea) => {
+      vertices.length = 0;
+      cursor = null;
+      updateDraft();
+      drawCallbacks.current.onAreaDrawn?.(area);
+    };
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      const lngLat: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+
+      if (drawMode === 'circle') {
+        if (vertices.length === 0) {
+          vertices.push(lngLat);
+        } else {
+          const radius = distance(vertices[0], lngLat, { units: 'kilometers' });
+          if (radius > 0) finish({ type: 'circle', center: vertices[0], radius });
+        }
+      } else {
+        if (vertices.length >= 3 && isNearVertex(e.point, vertices[0])) {
+          finish({ type: 'polygon', coordinates: [...vertices] });
+          return;
+        }
+        // 雙擊會先觸發兩次 click，忽略與上一個頂點重疊的點
+        if (vertices.length > 0 && isNearVertex(e.point, vertices[vertices.length - 1])) return;
+        vertices.push(lngLat);
+      }
+      updateDraft();
+    };
+
+    const handleDoubleClick = (e: maplibregl.MapMouseEvent) => {
+      e.preventDefault();
+      if (drawMode === 'polygon' && vertices.length >= 3) {
+        finish({ type: 'polygon', coordinates: [...vertices] });
+      }
+    };
+
+    const handleMouseMove = (e: maplibregl.MapMouseEvent) => {
+      cursor = [e.lngLat.lng, e.lngLat.lat];
+      if (vertices.length > 0) updateDraft();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') drawCallbacks.current.onDrawCancel?.();
+    };
+
+    const startDrawing = () => {
+      removeLayersAndSource(currentMap, ['selection-draft-line', 'selection-draft-points'], 'selection-draft');
+      currentMap.addSource('selection-draft', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      });
+      currentMap.addLayer({
+        id: 'selection-draft-line',
+        type: 'line',
+        source: 'selection-draft',
+        filter: ['!=', ['geometry-type'], 'Point'],
+        paint: {
+          'line-color': SELECTION_AREA_COLOR,
+          'line-width': 2,
+        },
+      });
+      currentMap.addLayer({
+        id: 'selection-draft-points',
+        type: 'circle',
+        source: 'selection-draft',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 4,
+          'circle-color': SELECTION_AREA_COLOR,
+          'circle-stroke-width': 1,
+          'circle-stroke-color': '#0f172a',
+        },
+      });
+
+      currentMap.doubleClickZoom.disable();
+      currentMap.getCanvas().style.cursor = 'crosshair';
+      currentMap.on('click', handleClick);
+      currentMap.on('dblclick', handleDoubleClick);
+      currentMap.on('mousemove', handleMouseMove);
+      window.addEventListener('keydown', handleKeyDown);
+    };
+
+    const cancelStart = whenMapReady(currentMap, startDrawing);
+
+    return () => {
+      cancelStart();
+      currentMap.off('click', handleClick);
+      currentMap.off('dblclick', handleDoubleClick);
+      currentMap.off('mousemove', handleMouseMove);
+      window.removeEventListener('keydown', handleKeyDown);
+      // 地圖可能已在元件卸載時移除
+      if (!currentMap.getStyle()) return;
+      currentMap.doubleClickZoom.enable();
+      currentMap.getCanvas().style.cursor = '';
+      removeLayersAndSource(currentMap, ['selection-draft-line', 'selection-draft-points'], 'selection-draft');
+    };
+  }, [drawMode]);
+
+  // 匯出目前的通知：PNG 為地圖畫面截圖，SVG 由 GeoJSON 重新繪製；兩者下方皆附說明區塊
+  const handleExport = useCallback(async ({ format, scale }: MapExportOptions) => {
+    const currentMap = map.current;
+    if (!currentMap || !notification || !notificationColors) return;
+
+    const towns = getMapExportTownNames(
+      [...notification.codes, ...(townMatches?.map(town => town.code) ?? [])],
+      townDirectory
+    );
+
+    if (format === 'png') {
+      const caption = createMapExportCaption(
+        notification,
+        notificationColors,
+        towns,
+        getMapExportAttribution(MAP_RASTER_TILES_URL ? 'raster' : 'boundaries')
+      );
+      const image = await renderMapExportPng(currentMap, caption, mapTheme, scale);
+      downloadBlob(image, getMapExportFilename(notification, 'png'));
+      return;
+    }
+
+    if (!exportBoundariesRef.current) {
+      const loadLayer = async (layer: keyof BoundaryFeatureCollections) => {
+        const response = await fetch(`${LOCAL_BOUNDARIES_URL}/${layer}`);
+        if (!response.ok) throw new Error(`無法載入行政區界線（${response.status}）`);
+        return response.json();
+      };
+      exportBoundariesRef.current = Promise.all([loadLayer('town'), loadLayer('county')])
+        .then(([town, county]) => ({ town, county }));
+      exportBoundariesRef.current.catch(() => {
+        exportBoundariesRef.current = null;
       });
-    } else {
-      processNotification();
     }
-  }, [notification, clearMapLayers, notificationBounds, processedGeoJSON]);
+    const boundaries = await exportBoundariesRef.current;
+    const container = currentMap.getContainer();
+    const svg = createMapExportSvg({
+      notification,
+      colors: notificationColors,
+      lineWidth: paletteColors.lineWidth,
+      theme: mapTheme,
+      towns: boundaries.town,
+      counties: boundaries.county,
+      caption: createMapExportCaption(notification, notificationColors, towns, getMapExportAttribution('boundaries')),
+      width: container.clientWidth,
+      height: container.clientHeight
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), getMapExportFilename(notification, 'svg'));
+  }, [notification, notificationColors, paletteColors, townMatches, townDirectory, mapTheme]);
 
   return (
     <div className="h-full relative md:rounded-lg overflow-hidden">
       <div ref={mapContainer} className="h-full w-full" />
-      {!notification && (
+      {!notification && !drawMode && !selectionArea && !onMapClick && !density && !playbackFrame && !compare && (
         <div className="absolute inset-0 bg-background/95 backdrop-blur-sm flex items-center justify-center">
           <div className="text-center max-w-md mx-auto p-8">
             <div className="w-20 h-20 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -439,15 +1076,178 @@ export default function MapView({ notification }: MapViewProps) {
         </div>
       )}
       
+      {notification && (
+        <div className="absolute top-2.5 right-12 z-10">
+          <MapExportComponent onExport={handleExport} />
+        </div>
+      )}
+
+      {/* 離線提示 */}
+      <div className="absolute bottom-8 left-4 right-4 z-20 flex justify-center pointer-events-none">
+        <OfflineBanner
+          message="離線中：地圖僅顯示已快取的台灣低縮放圖磚"
+          className="bg-background/95 backdrop-blur-sm shadow-sm"
+        />
+      </div>
+      
       {/* 地圖控制面板 */}
       <div className="absolute top-4 left-4 z-10">
         <div className="bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm">
-          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#60a5fa' }}></div>
-            <span>通知範圍</span>
-          </div>
+          {notification && notificationColors && (
+            <>
+              <LegendSwatch color={notificationColors.fill} label={NOTIFICATION_CATEGORY_LABELS[notificationColors.category]} />
+              <LegendSwatch
+                color={notificationColors.line}
+                shape="outline"
+                label={`嚴重程度：${NOTIFICATION_SEVERITY_LABELS[notificationColors.severity]}`}
+              />
+              <div className="text-xs text-muted-foreground">
+                {[
+                  notification.Polygons.length > 0 && `${notification.Polygons.length} 個多邊形`,
+                  notification.codes.length > 0 && `發送鄉鎮 ${notification.codes.length} 個`
+                ].filter(Boolean).join(' · ')}
+              </div>
+            </>
+          )}
+          {marker && <LegendSwatch color="#f59e0b" shape="dot" label="查詢地點" />}
+          {!notification && !marker && !density && !playbackFrame && !compare && !selectionArea && (
+            <div className="text-sm text-muted-foreground">尚未顯示圖層</div>
+          )}
+          {playbackFrame && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {NOTIFICATION_SEVERITIES.map(severity => (
+                <div key={severity} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: paletteColors.severity[severity] }}></div>
+                  <span>{NOTIFICATION_SEVERITY_LABELS[severity]}</span>
+                </div>
+              ))}
+              <div>發送後逐漸淡出</div>
+            </div>
+          )}
+          {density && (
+            <div className="text-xs text-muted-foreground">
+              <div className="font-medium text-foreground mb-1">鄉鎮通知數</div>
+              {density.classes.length === 0 && <div>沒有符合的通知</div>}
+              {density.classes.map(densityClass => (
+                <div key={densityClass.color} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: densityClass.color }}></div>
+                  <span className="tabular-nums">
+                    {densityClass.min === densityClass.max ? densityClass.min : `${densityClass.min}–${densityClass.max}`}
+                  </span>
+                </div>
+              ))}
+              {density.centroids && <div className="mt-1">熱區：多邊形中心點密度</div>}
+              <div className="mt-1">點擊鄉鎮查看通知列表</div>
+            </div>
+          )}
+          {compare && (
+            <div className="w-60 text-xs text-muted-foreground space-y-1">
+              <div className="font-medium text-foreground">通知比較</div>
+              {compare.items.map(({ notification, color }) => (
+                <div key={notification.id} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: color }}></div>
+                  <span className="truncate" title={notification.title}>{notification.title}</span>
+                </div>
+              ))}
+              {compare.items.length > 1 && (
+                <div className="pt-1 border-t border-border/50 space-y-0.5">
+                  <div className="flex justify-between gap-2">
+                    <span>聯集面積</span>
+                    <span className="tabular-nums">{formatArea(compare.overlap.unionArea)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1">
+                      <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: MAP_THEME_COLORS[mapTheme].contrast, opacity: 0.6 }}></div>
+                      交集面積
+                    </span>
+                    <span className="tabular-nums">
+                      {formatArea(compare.overlap.intersectionArea)}
+                      {compare.overlap.unionArea > 0 && ` · ${(compare.overlap.intersectionArea / compare.overlap.unionArea * 100).toFixed(1)}%`}
+                    </span>
+                  </div>
+                  {compare.overlap.sharedCodes.length > 0 && (
+                    <div>共同發送鄉鎮 {compare.overlap.sharedCodes.length} 個</div>
+                  )}
+                  {compare.overlap.codeOnlyIds.length > 0 && (
+                    <div>{compare.overlap.codeOnlyIds.length} 則以鄉鎮發送的通知不計入面積</div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {selectionArea && <LegendSwatch color={SELECTION_AREA_COLOR} shape="dashed" label="篩選範圍" />}
+          {(notification || compare) && (
+            <div className="mt-1 text-xs text-muted-foreground">點擊範圍查看通知內容</div>
+          )}
         </div>
+        
+        {drawMode && (
+          <div className="mt-2 w-60 bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm text-xs text-muted-foreground">
+            {drawMode === 'polygon'
+              ? '點擊地圖加入頂點，雙擊或點擊起點完成'
+              : '點擊地圖設定圓心，再點擊設定半徑'}
+            <span className="block mt-1">按 Esc 取消</span>
+          </div>
+        )}
+        
+        {notification && children}
+        
+        {notification && !children && townMatches && townMatches.length > 0 && (
+          <div className="mt-2 w-60 max-h-60 overflow-y-auto bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm">
+            <div className="text-xs font-medium text-foreground mb-2">涵蓋鄉鎮（{townMatches.length}）</div>
+            <ul className="space-y-1 text-xs">
+              {townMatches.map(town => (
+                <li key={town.code} className="flex items-center justify-between gap-2">
+                  <span className={`truncate ${town.primary ? 'font-medium text-foreground' : ''}`}>
+                    {town.name}
+                    {town.primary && <span className="ml-1 text-[10px] text-primary">主要</span>}
+                  </span>
+                  <span className="flex-shrink-0 tabular-nums text-muted-foreground">
+                    {town.area > 0 ? formatArea(town.area) : `${town.samples} 點`} · {town.share.toFixed(1)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
+
+      {map.current && townHover && townDirectory.has(townHover.code) && (
+        <MapPopup map={map.current} lngLat={townHover.lngLat} closeButton={false} className="pointer-events-none">
+          <TownTooltipContent
+            town={townDirectory.get(townHover.code)!}
+            detail={
+              <>
+                {density && <div>{density.counts.get(townHover.code) ?? 0} 筆通知</div>}
+                {notification?.codes.includes(townHover.code) && <div>為此通知的發送鄉鎮</div>}
+                {compare?.items
+                  .filter(item => item.notification.codes.includes(townHover.code))
+                  .map(({ notification: item, color }) => (
+                    <div key={item.id} className="flex items-center gap-1.5">
+                      <div className="w-2 h-2 rounded-sm flex-shrink-0" style={{ backgroundColor: color }}></div>
+                      <span className="truncate">{item.title}</span>
+                    </div>
+                  ))}
+              </>
+            }
+          />
+        </MapPopup>
+      )}
+
+      {map.current && notificationPopup && (
+        <MapPopup map={map.current} lngLat={notificationPopup.lngLat} onClose={() => setNotificationPopup(null)}>
+          <NotificationPopupContent
+            notifications={notificationPopup.notifications}
+            town={notificationPopup.code !== null ? townDirectory.get(notificationPopup.code) : null}
+          />
+        </MapPopup>
+      )}
+
+      {footer && (
+        <div className="absolute bottom-4 left-4 right-4 z-10">
+          {footer}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import {
+  NOTIFICATION_CATEGORY_LABELS,
+  NotificationCategory,
+  NotificationSeverity
+} from '@/utils/notificationCategory';
+import { NOTIFICATION_SEVERITY_LABELS } from '@/utils/notificationPalette';
+
+interface PaletteBadgeProps {
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// 以配色方案的顏色作為邊框與淡底色，文字維持前景色以確保可讀性
+function PaletteBadge({ color, className, children }: PaletteBadgeProps & { color: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      style={{ borderColor: color, backgroundColor: `${color}1f` }}
+    >
+      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+      {children}
+    </Badge>
+  );
+}
+
+// 通知類型標籤，children 可附加數量等資訊
+export function NotificationCategoryBadge({
+  category,
+  className,
+  children
+}: PaletteBadgeProps & { category: NotificationCategory }) {
+  const { colors } = usePaletteContext();
+  return (
+    <PaletteBadge color={colors.category[category]} className={className}>
+      {NOTIFICATION_CATEGORY_LABELS[category]}
+      {children}
+    </PaletteBadge>
+  );
+}
+
+export function NotificationSeverityBadge({
+  severity,
+  className,
+  children
+}: PaletteBadgeProps & { severity: NotificationSeverity }) {
+  const { colors } = usePaletteContext();
+  return (
+    <PaletteBadge color={colors.severity[severity]} className={className}>
+      {children ?? NOTIFICATION_SEVERITY_LABELS[severity]}
+    </PaletteBadge>
+  );
+}
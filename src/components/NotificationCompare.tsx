@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useMemo, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Layers2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { NotificationRecord } from '@/types/notify';
+import {
+  addCompareRange,
+  MAX_COMPARE_NOTIFICATIONS,
+  parseCompareParam,
+  serializeCompareParam,
+  toggleCompareId
+} from '@/utils/notificationCompare';
+
+export interface NotificationCompareBarProps {
+  count: number;
+  onClear: () => void;
+}
+
+// 列表上方的比較狀態列
+export const NotificationCompareBarComponent: React.FC<NotificationCompareBarProps> = ({ count, onClear }) => {
+  if (count === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        勾選或按住 Shift 點擊通知，可在地圖上同時比較最多 {MAX_COMPARE_NOTIFICATIONS} 則
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-md border border-primary/30 bg-primary/5 px-3 py-1.5 text-xs">
+      <span className="flex items-center gap-1.5 font-medium">
+        <Layers2 className="w-3.5 h-3.5 text-primary" />
+        比較 {count} 則通知
+        {count >= MAX_COMPARE_NOTIFICATIONS && <span className="text-muted-foreground font-normal">（已達上限）</span>}
+      </span>
+      <Button variant="ghost" size="sm" onClick={onClear} className="h-6 px-2 gap-1 text-xs">
+        <X className="w-3 h-3" />
+        清除
+      </Button>
+    </div>
+  );
+};
+
+// 從 URL 讀取比較的通知（compare 參數，以逗號分隔的識別碼）
+export const useNotificationCompare = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const compareParam = searchParams.get('compare');
+  const compareIds = useMemo(() => parseCompareParam(compareParam), [compareParam]);
+  // Shift 點擊的範圍起點：最後一次單獨勾選的通知
+  const anchorRef = useRef<string | null>(null);
+
+  const handleCompareIdsChange = useCallback((ids: string[]) => {
+    const params = new URLSearchParams(window.location.search);
+    const value = serializeCompareParam(ids);
+
+    if (value) {
+      params.set('compare', value);
+    } else {
+      params.delete('compare');
+    }
+
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  // range 為 true 時加入起點到此通知之間的所有通知
+  const toggleCompare = useCallback((
+    notification: NotificationRecord,
+    notifications: NotificationRecord[],
+    range: boolean
+  ) => {
+    if (range && anchorRef.current) {
+      handleCompareIdsChange(addCompareRange(compareIds, notifications, anchorRef.current, notification.id));
+    } else {
+      handleCompareIdsChange(toggleCompareId(compareIds, notification.id));
+    }
+    anchorRef.current = notification.id;
+  }, [compareIds, handleCompareIdsChange]);
+
+  const clearCompare = useCallback(() => {
+    anchorRef.current = null;
+    handleCompareIdsChange([]);
+  }, [handleCompareIdsChange]);
+
+  return {
+    compareIds,
+    toggleCompare,
+    clearCompare
+  };
+};
@@ -1,25 +1,76 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { NotificationRecord } from '@/types/notify';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Shield, AlertTriangle } from 'lucide-react';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { HighlightedText } from '@/components/HighlightedText';
+import { NotificationSeverityBadge } from '@/components/NotificationCategoryBadge';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import { NOTIFICATION_CATEGORY_LABELS } from '@/utils/notificationCategory';
+import { getNotificationColors, NOTIFICATION_SEVERITY_LABELS } from '@/utils/notificationPalette';
+import type { SearchTerm } from '@/utils/searchIndex';
+import { Shield, AlertTriangle, AlertCircle, Loader2 } from 'lucide-react';
 
 interface NotificationListProps {
   notifications: NotificationRecord[];
   selectedNotification: NotificationRecord | null;
   onSelectNotification: (notification: NotificationRecord) => void;
+  highlightedIds?: Set<string>;
+  // 標示符合搜尋條件的文字
+  searchTerms?: SearchTerm[];
+  // 顯示在列表上方的內容（例如搜尋框）
+  header?: React.ReactNode;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // 比較模式：勾選的通知與其在地圖上的顏色；range 表示以 Shift 點擊選取範圍
+  compareColors?: ReadonlyMap<string, string>;
+  onToggleCompare?: (notification: NotificationRecord, range: boolean) => void;
 }
 
 export default function NotificationList({
   notifications,
   selectedNotification,
   onSelectNotification,
+  highlightedIds,
+  searchTerms,
+  header,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  compareColors,
+  onToggleCompare,
 }: NotificationListProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const selectedItemRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { palette } = usePaletteContext();
+  // 各通知的類型與嚴重程度顏色，與地圖使用同一配色
+  const notificationColors = useMemo(
+    () => new Map(notifications.map(notification => [notification.id, getNotificationColors(notification, palette)])),
+    [notifications, palette]
+  );
+
+  // 捲動到列表底部時載入下一頁
+  useEffect(() => {
+    if (!hasMore || !onLoadMore || !loadMoreRef.current) return;
+
+    const scrollContainer = scrollAreaRef.current?.querySelector('[data-radix-scroll-area-viewport]') ?? null;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting) && !loadingMore) {
+          onLoadMore();
+        }
+      },
+      { root: scrollContainer, rootMargin: '200px' }
+    );
+
+    observer.observe(loadMoreRef.current);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore, notifications.length]);
 
   // 當選中的通知改變時，滾動到該位置
   useEffect(() => {
@@ -49,49 +100,88 @@ export default function NotificationList({
 
   return (
     <div className="h-full flex flex-col bg-background">
+      {header && <div className="px-4 pt-4 flex-shrink-0">{header}</div>}
+      <OfflineBanner className="mx-4 mt-4 flex-shrink-0" />
       {/* 通知列表 */}
       <div className="flex-1 overflow-hidden">
         <ScrollArea ref={scrollAreaRef} className="h-full">
           <div className="p-4 space-y-3">
-            {notifications.map((notification, index) => (
+            {notifications.length === 0 && (
+              <p className="py-8 text-center text-xs text-muted-foreground">沒有符合條件的通知</p>
+            )}
+            {notifications.map((notification) => (
             <Card
-              key={`${notification.timestamp}-${index}`}
-              ref={selectedNotification?.timestamp === notification.timestamp ? selectedItemRef : null}
+              key={notification.id}
+              ref={selectedNotification?.id === notification.id ? selectedItemRef : null}
               className={`relative cursor-pointer transition-all duration-200 ${
-                selectedNotification?.timestamp === notification.timestamp
+                selectedNotification?.id === notification.id
                   ? 'border-primary bg-primary/5 ring-2 ring-primary/20'
                   : 'hover:bg-accent/50'
+              } ${
+                highlightedIds?.has(notification.id)
+                  ? 'border-l-4 border-l-amber-500 animate-in fade-in slide-in-from-top-2'
+                  : ''
               }`}
-              onClick={() => onSelectNotification(notification)}
+              onClick={(e) => {
+                // Shift 點擊加入比較，不切換選取的通知
+                if (e.shiftKey && onToggleCompare) {
+                  e.preventDefault();
+                  onToggleCompare(notification, true);
+                  return;
+                }
+                onSelectNotification(notification);
+              }}
             >
               <div className="p-3">
                 <div className="flex items-start gap-3">
-                  <div className={`p-1.5 rounded-md flex-shrink-0 ${
-                    notification.critical 
-                      ? 'bg-destructive/10' 
-                      : 'bg-primary/10'
-                  }`}>
-                    {notification.critical ? (
-                      <AlertTriangle className="w-3.5 h-3.5 text-destructive" />
-                    ) : (
-                      <Shield className="w-3.5 h-3.5 text-primary" />
-                    )}
-                  </div>
+                  {onToggleCompare && (
+                    <input
+                      type="checkbox"
+                      checked={compareColors?.has(notification.id) ?? false}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => onToggleCompare(notification, (e.nativeEvent as MouseEvent).shiftKey === true)}
+                      className="mt-2 flex-shrink-0 cursor-pointer"
+                      style={{ accentColor: compareColors?.get(notification.id) }}
+                      aria-label="加入比較"
+                      title="加入地圖比較"
+                    />
+                  )}
+                  {(() => {
+                    const colors = notificationColors.get(notification.id)!;
+                    return (
+                      <div
+                        className="p-1.5 rounded-md flex-shrink-0"
+                        style={{ backgroundColor: `${colors.line}1a`, color: colors.line }}
+                        title={`${NOTIFICATION_CATEGORY_LABELS[colors.category]} · ${NOTIFICATION_SEVERITY_LABELS[colors.severity]}`}
+                      >
+                        {notification.critical ? (
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                        ) : (
+                          <Shield className="w-3.5 h-3.5" />
+                        )}
+                      </div>
+                    );
+                  })()}
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between gap-2 mb-1">
                       <h3 className="font-medium text-foreground text-sm line-clamp-1">
-                        {notification.title}
+                        <HighlightedText text={notification.title} terms={searchTerms} field="title" />
                       </h3>
-                      {notification.critical && (
-                        <Badge variant="destructive" className="text-xs px-1.5 h-5">
-                          緊急
-                        </Badge>
-                      )}
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {highlightedIds?.has(notification.id) && (
+                          <Badge className="text-xs px-1.5 h-5 bg-amber-500 text-white">
+                            新
+                          </Badge>
+                        )}
+                        {notification.critical && (
+                          <NotificationSeverityBadge severity="alert" className="text-xs px-1.5 h-5" />
+                        )}
+                      </div>
                     </div>
                     <div className="text-xs text-muted-foreground line-clamp-2 mb-2">
                       {notification.body.split('\n').map((line, index) => (
                         <div key={index} className={index > 0 ? 'mt-0.5' : ''}>
-                          {line}
+                          <HighlightedText text={line} terms={searchTerms} field="body" />
                         </div>
                       ))}
                     </div>
@@ -104,11 +194,22 @@ export default function NotificationList({
                           minute: '2-digit'
                         })}
                       </time>
-                      {notification.Polygons?.length > 0 && (
-                        <span className="text-xs">
-                          {notification.Polygons.length} 區域
-                        </span>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {notification.warnings.length > 0 && (
+                          <span
+                            className="flex items-center gap-0.5 text-amber-600 dark:text-amber-400"
+                            title={notification.warnings.join('\n')}
+                          >
+                            <AlertCircle className="w-3 h-3" />
+                            {notification.warnings.length}
+                          </span>
+                        )}
+                        {notification.Polygons?.length > 0 && (
+                          <span className="text-xs">
+                            {notification.Polygons.length} 區域
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -116,6 +217,20 @@ export default function NotificationList({
 
             </Card>
           ))}
+            {hasMore && onLoadMore && (
+              <div ref={loadMoreRef} className="flex items-center justify-center py-3 text-xs text-muted-foreground">
+                {loadingMore ? (
+                  <>
+                    <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+                    載入更多通知...
+                  </>
+                ) : (
+                  <button onClick={onLoadMore} className="hover:text-foreground">
+                    載入更多
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </ScrollArea>
       </div>
@@ -0,0 +1,28 @@
+'use client';
+
+import { WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+interface OfflineBannerProps {
+  message?: string;
+  className?: string;
+}
+
+export function OfflineBanner({
+  message = '目前處於離線狀態，顯示的是最後一次同步的資料',
+  className = ''
+}: OfflineBannerProps) {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center gap-2 px-3 py-2 text-xs bg-amber-500/15 text-amber-700 dark:text-amber-300 border border-amber-500/30 rounded-md ${className}`}
+    >
+      <WifiOff className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
@@ -4,13 +4,17 @@ import { NotificationRecord } from '@/types/notify';
 import { useState, useEffect } from 'react';
 import { Wifi, Battery, Signal, Camera, Flashlight } from 'lucide-react';
 import { getTimeAgo } from '@/lib/time-utils';
+import { HighlightedText } from '@/components/HighlightedText';
+import type { SearchTerm } from '@/utils/searchIndex';
 import Image from 'next/image';
 
 interface PhonePreviewProps {
   notification: NotificationRecord | null;
+  // 標示符合搜尋條件的文字
+  searchTerms?: SearchTerm[];
 }
 
-export default function PhonePreview({ notification }: PhonePreviewProps) {
+export default function PhonePreview({ notification, searchTerms }: PhonePreviewProps) {
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -112,7 +116,7 @@ export default function PhonePreview({ notification }: PhonePreviewProps) {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-start justify-between mb-1.5">
                               <div className="text-gray-900 dark:text-gray-100 text-xs sm:text-sm font-semibold line-clamp-2 flex-1 pr-2">
-                                {notification.title}
+                                <HighlightedText text={notification.title} terms={searchTerms} field="title" />
                               </div>
                               <div className=" text-[10px] sm:text-xs font-medium flex-shrink-0">
                                 {getTimeAgo(notification.timestamp)}
@@ -121,7 +125,7 @@ export default function PhonePreview({ notification }: PhonePreviewProps) {
                             <div className="text-gray-700 dark:text-gray-300 text-[11px] sm:text-xs leading-relaxed max-h-[60px] sm:max-h-[80px] overflow-hidden">
                               {notification.body.split('\n').map((line, index) => (
                                 <div key={index} className={index > 0 ? 'mt-1' : ''}>
-                                  {line}
+                                  <HighlightedText text={line} terms={searchTerms} field="body" />
                                 </div>
                               ))}
                             </div>
@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export interface PointLookupFormProps {
+  point: [number, number] | null; // [lon, lat]
+  onPointChange: (point: [number, number] | null) => void;
+}
+
+// 台灣附近的合理範圍，避免經緯度填反
+const LON_RANGE: [number, number] = [116, 124];
+const LAT_RANGE: [number, number] = [20, 27];
+
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(5)).toString();
+}
+
+export const PointLookupFormComponent: React.FC<PointLookupFormProps> = ({ point, onPointChange }) => {
+  const [lat, setLat] = useState('');
+  const [lon, setLon] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // 點擊地圖或 URL 變更時同步輸入框
+  useEffect(() => {
+    setLon(point ? formatCoordinate(point[0]) : '');
+    setLat(point ? formatCoordinate(point[1]) : '');
+    setError(null);
+  }, [point]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // 也接受直接貼上「緯度, 經度」
+    const pasted = lat.split(',');
+    const [latText, lonText] = pasted.length === 2 && !lon.trim() ? pasted : [lat, lon];
+    const latValue = Number(latText);
+    const lonValue = Number(lonText);
+
+    if (!latText.trim() || !lonText.trim() || !Number.isFinite(latValue) || !Number.isFinite(lonValue)) {
+      setError('請輸入有效的經緯度');
+      return;
+    }
+    if (lonValue < LON_RANGE[0] || lonValue > LON_RANGE[1] || latValue < LAT_RANGE[0] || latValue > LAT_RANGE[1]) {
+      setError('座標不在台灣附近，請確認經緯度是否填反');
+      return;
+    }
+
+    setError(null);
+    onPointChange([lonValue, latValue]);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        value={lat}
+        onChange={(e) => setLat(e.target.value)}
+        placeholder="緯度（例如 25.0330）"
+        inputMode="decimal"
+        className="w-40 border rounded px-2 py-1 bg-background"
+      />
+      <input
+        value={lon}
+        onChange={(e) => setLon(e.target.value)}
+        placeholder="經度（例如 121.5654）"
+        inputMode="decimal"
+        className="w-40 border rounded px-2 py-1 bg-background"
+      />
+      <Button type="submit" size="sm" className="gap-2">
+        <Search className="w-3.5 h-3.5" />
+        查詢
+      </Button>
+      {point && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onPointChange(null)}>
+          清除
+        </Button>
+      )}
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </form>
+  );
+};
+
+// 從 URL 讀取查詢點（lat、lon 參數）
+export const usePointLookup = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+
+  const point = useMemo((): [number, number] | null => {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+    if (!latParam || !lonParam || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+    return [lon, lat];
+  }, [latParam, lonParam]);
+
+  const handlePointChange = useCallback((next: [number, number] | null) => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (next) {
+      params.set('lat', formatCoordinate(next[1]));
+      params.set('lon', formatCoordinate(next[0]));
+    } else {
+      params.delete('lat');
+      params.delete('lon');
+    }
+    params.delete('id');
+
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  return {
+    point,
+    handlePointChange
+  };
+};
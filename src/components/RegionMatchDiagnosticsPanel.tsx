@@ -0,0 +1,156 @@
+'use client';
+
+import type { GridSample } from '@/utils/gridIndex';
+import type {
+  PolygonMatchMethod,
+  RegionMatchDiagnostics,
+  RegionMatchReason
+} from '@/utils/regionMatcher';
+
+// 網格抽樣點的狀態：命中鄉鎮、在範圍內但該點無鄉鎮（海上）、在範圍外，以及備用方案的中心點
+export type DiagnosticPointStatus = 'hit' | 'empty' | 'outside' | 'center';
+
+export const DIAGNOSTIC_POINT_COLORS: Record<DiagnosticPointStatus, string> = {
+  hit: '#22c55e',
+  empty: '#38bdf8',
+  outside: '#94a3b8',
+  center: '#f59e0b'
+};
+
+const DIAGNOSTIC_POINT_LABELS: Record<DiagnosticPointStatus, string> = {
+  hit: '命中',
+  empty: '範圍內無鄉鎮',
+  outside: '範圍外',
+  center: '備援中心點'
+};
+
+const METHOD_LABELS: Record<PolygonMatchMethod, string> = {
+  exact: '鄉鎮界線交集',
+  grid: '網格抽樣',
+  nearest: '最近網格點（備用方案）',
+  none: '無法對應'
+};
+
+const REASON_LABELS: Record<RegionMatchReason, string> = {
+  code: '代碼',
+  polygon: '範圍',
+  title: '標題'
+};
+
+export function getGridSampleStatus(sample: GridSample): Exclude<DiagnosticPointStatus, 'center'> {
+  if (!sample.inside) return 'outside';
+  return sample.townCode !== null ? 'hit' : 'empty';
+}
+
+interface RegionMatchDiagnosticsPanelProps {
+  diagnostics: RegionMatchDiagnostics | null;
+  loading: boolean;
+  error: string | null;
+  // 目前的地區篩選與選取通知符合該地區的原因
+  regionFilter: string | null;
+  filterReasons: RegionMatchReason[];
+}
+
+export function RegionMatchDiagnosticsPanel({
+  diagnostics,
+  loading,
+  error,
+  regionFilter,
+  filterReasons
+}: RegionMatchDiagnosticsPanelProps) {
+  return (
+    <div className="mt-2 w-72 max-h-[60vh] overflow-y-auto bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-foreground">匹配診斷</span>
+        {diagnostics && (
+          <span className="text-muted-foreground">{diagnostics.mode === 'exact' ? '精確比對' : '網格抽樣'}</span>
+        )}
+      </div>
+
+      {loading && <div className="text-muted-foreground">診斷中...</div>}
+      {error && <div className="text-destructive">{error}</div>}
+
+      {diagnostics && (
+        <div className="space-y-3">
+          {regionFilter && (
+            <div>
+              <div className="text-muted-foreground mb-1">篩選「{regionFilter}」</div>
+              {filterReasons.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {filterReasons.map(reason => (
+                    <span key={reason} className="px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                      {REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-muted-foreground">目前的篩選語意下不符合</div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <div className="text-muted-foreground mb-1">匹配鄉鎮（{diagnostics.result.towns.length}）</div>
+            {diagnostics.result.towns.length === 0 ? (
+              <div className="text-muted-foreground">
+                {diagnostics.result.isNationwide ? '全國廣播' : diagnostics.result.isUnknownArea ? '未知區域' : '其他地區'}
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {diagnostics.result.towns.map(town => (
+                  <li key={town.code} className="flex items-center justify-between gap-2">
+                    <span className={`truncate ${town.primary ? 'font-medium text-foreground' : ''}`}>
+                      {town.name}
+                      {town.primary && <span className="ml-1 text-[10px] text-primary">主要</span>}
+                    </span>
+                    <span className="flex-shrink-0 tabular-nums text-muted-foreground">
+                      {REASON_LABELS[town.reason]} · {town.share.toFixed(1)}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {diagnostics.polygons.map((polygon, index) => {
+            const counts = { hit: 0, empty: 0, outside: 0 };
+            polygon.samples.forEach(sample => {
+              counts[getGridSampleStatus(sample)]++;
+            });
+            const usedFallback = polygon.method === 'nearest' || polygon.method === 'none';
+
+            return (
+              <div key={index} className="border-t border-border/50 pt-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-foreground">範圍 {index + 1}</span>
+                  <span className={usedFallback ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}>
+                    {METHOD_LABELS[polygon.method]}
+                  </span>
+                </div>
+                <div className="mt-1 text-muted-foreground tabular-nums">
+                  網格點：命中 {counts.hit} · 範圍內無鄉鎮 {counts.empty} · 範圍外 {counts.outside}
+                </div>
+                {usedFallback && polygon.center && (
+                  <div className="mt-1 text-amber-600 dark:text-amber-400 tabular-nums">
+                    範圍內沒有網格點，以中心點 {polygon.center[0].toFixed(3)}, {polygon.center[1].toFixed(3)} 查詢最近網格點
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {diagnostics.polygons.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 border-t border-border/50 pt-2 text-muted-foreground">
+              {(Object.keys(DIAGNOSTIC_POINT_LABELS) as DiagnosticPointStatus[]).map(status => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIAGNOSTIC_POINT_COLORS[status] }}></span>
+                  {DIAGNOSTIC_POINT_LABELS[status]}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
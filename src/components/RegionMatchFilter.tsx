@@ -0,0 +1,108 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  DEFAULT_REGION_MATCH_OPTIONS,
+  RegionMatchOptions,
+  RegionMatchSemantics
+} from '@/utils/regionMatcher';
+
+const SEMANTICS_LABELS: Record<RegionMatchSemantics, string> = {
+  primary: '主要鄉鎮',
+  any: '任何重疊',
+  threshold: '重疊達門檻'
+};
+
+export interface RegionMatchFilterProps {
+  options: RegionMatchOptions;
+  onChange: (options: RegionMatchOptions) => void;
+  compact?: boolean;
+}
+
+export const RegionMatchFilterComponent: React.FC<RegionMatchFilterProps> = ({
+  options,
+  onChange,
+  compact = false
+}) => {
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={`flex items-center gap-2 ${textClass}`}>
+      <select
+        value={options.semantics}
+        onChange={(e) => onChange({ ...options, semantics: e.target.value as RegionMatchSemantics })}
+        className={`border rounded px-2 py-1 bg-background ${textClass}`}
+        title="多邊形通知涵蓋多個鄉鎮時的計算方式"
+      >
+        {(Object.keys(SEMANTICS_LABELS) as RegionMatchSemantics[]).map(semantics => (
+          <option key={semantics} value={semantics}>
+            {SEMANTICS_LABELS[semantics]}
+          </option>
+        ))}
+      </select>
+      {options.semantics === 'threshold' && (
+        <label className="flex items-center gap-1 text-muted-foreground">
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={options.threshold}
+            onChange={(e) => {
+              const threshold = Number(e.target.value);
+              if (threshold >= 1 && threshold <= 100) {
+                onChange({ ...options, threshold });
+              }
+            }}
+            className={`w-14 border rounded px-2 py-1 bg-background text-foreground ${textClass}`}
+          />
+          %
+        </label>
+      )}
+    </div>
+  );
+};
+
+// 從 URL 讀取地區篩選語意（match、threshold 參數）
+export const useRegionMatchFilter = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const regionMatchOptions = useMemo((): RegionMatchOptions => {
+    const semanticsParam = searchParams.get('match') as RegionMatchSemantics | null;
+    const thresholdParam = Number(searchParams.get('threshold'));
+
+    return {
+      semantics: semanticsParam && semanticsParam in SEMANTICS_LABELS
+        ? semanticsParam
+        : DEFAULT_REGION_MATCH_OPTIONS.semantics,
+      threshold: thresholdParam >= 1 && thresholdParam <= 100
+        ? thresholdParam
+        : DEFAULT_REGION_MATCH_OPTIONS.threshold
+    };
+  }, [searchParams]);
+
+  // 更新 URL 參數，預設值不寫入 URL
+  const handleRegionMatchOptionsChange = useCallback((options: RegionMatchOptions) => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (options.semantics === DEFAULT_REGION_MATCH_OPTIONS.semantics) {
+      params.delete('match');
+    } else {
+      params.set('match', options.semantics);
+    }
+
+    if (options.semantics === 'threshold' && options.threshold !== DEFAULT_REGION_MATCH_OPTIONS.threshold) {
+      params.set('threshold', options.threshold.toString());
+    } else {
+      params.delete('threshold');
+    }
+
+    router.replace(`${window.location.pathname}?${params.toString()}`);
+  }, [router]);
+
+  return {
+    regionMatchOptions,
+    handleRegionMatchOptionsChange
+  };
+};
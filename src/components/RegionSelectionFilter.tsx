@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ChevronDown, ChevronRight, Circle, Pentagon, X } from 'lucide-react';
+import type { RegionData } from '@/hooks/useRegionData';
+import {
+  formatRegionSelection,
+  parseAreaParam,
+  parseRegionParam,
+  RegionSelection,
+  SelectionDrawMode,
+  serializeAreaParam,
+  serializeRegionParam,
+  SPECIAL_REGIONS
+} from '@/utils/regionSelection';
+
+export interface RegionSelectionFilterProps {
+  selection: RegionSelection;
+  regionData: RegionData;
+  onChange: (selection: RegionSelection) => void;
+  drawMode: SelectionDrawMode | null;
+  onDrawModeChange: (mode: SelectionDrawMode | null) => void;
+  compact?: boolean;
+}
+
+export const RegionSelectionFilterComponent: React.FC<RegionSelectionFilterProps> = ({
+  selection,
+  regionData,
+  onChange,
+  drawMode,
+  onDrawModeChange,
+  compact = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [expandedCity, setExpandedCity] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  // 點擊選單外部時關閉
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const toggleRegion = (region: string) => {
+    const regions = selection.regions.includes(region)
+      ? selection.regions.filter(r => r !== region)
+      : [...selection.regions, region];
+    onChange({ ...selection, regions });
+  };
+
+  const startDrawing = (mode: SelectionDrawMode) => {
+    setOpen(false);
+    onDrawModeChange(drawMode === mode ? null : mode);
+  };
+
+  const empty = selection.regions.length === 0 && !selection.area;
+  const summary = empty ? '全部地區' : formatRegionSelection(selection);
+
+  return (
+    <div ref={containerRef} className={`relative flex items-center gap-1 ${textClass}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 border rounded px-2 py-1 bg-background max-w-56 ${textClass}`}
+        aria-expanded={open}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-1 z-50 w-72 max-h-96 overflow-y-auto bg-background border rounded-md shadow-lg p-2">
+          {SPECIAL_REGIONS.map(({ value, label }) => (
+            <label
+              key={value}
+              className="flex items-center gap-2 px-1 py-1 rounded hover:bg-muted cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selection.regions.includes(value)}
+                onChange={() => toggleRegion(value)}
+              />
+              <span className="truncate">{label}</span>
+            </label>
+          ))}
+
+          <div className="border-t my-1" />
+
+          {Object.keys(regionData).map(city => {
+            const districts = Object.keys(regionData[city]);
+            const selectedDistricts = districts.filter(district => selection.regions.includes(`${city}${district}`));
+            const expanded = expandedCity === city;
+
+            return (
+              <div key={city}>
+                <div className="flex items-center gap-1 px-1 py-1 rounded hover:bg-muted">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedCity(expanded ? null : city)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={expanded ? `收合${city}` : `展開${city}`}
+                  >
+                    {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  </button>
+                  <label className="flex flex-1 items-center gap-2 cursor-pointer min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={selection.regions.includes(city)}
+                      onChange={() => toggleRegion(city)}
+                    />
+                    <span className="truncate">{city}</span>
+                    {selectedDistricts.length > 0 && (
+                      <span className="text-muted-foreground">（{selectedDistricts.length}）</span>
+                    )}
+                  </label>
+                </div>
+
+                {expanded && (
+                  <div className="ml-6">
+                    {districts.map(district => (
+                      <label
+                        key={district}
+                        className="flex items-center gap-2 px-1 py-0.5 rounded hover:bg-muted cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selection.regions.includes(`${city}${district}`)}
+                          onChange={() => toggleRegion(`${city}${district}`)}
+                        />
+                        <span className="truncate">{district}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {!empty && (
+            <button
+              type="button"
+              onClick={() => onChange({ regions: [], area: null })}
+              className="mt-1 w-full text-center text-muted-foreground hover:text-foreground py-1"
+            >
+              清除地區篩選
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* 在地圖上繪製篩選範圍 */}
+      <button
+        type="button"
+        onClick={() => startDrawing('polygon')}
+        className={`border rounded p-1 ${drawMode === 'polygon' ? 'bg-primary text-primary-foreground' : 'bg-background'}`}
+        title="在地圖上繪製多邊形範圍"
+      >
+        <Pentagon className="w-3.5 h-3.5" />
+      </button>
+      <button
+        type="button"
+        onClick={() => startDrawing('circle')}
+        className={`border rounded p-1 ${drawMode === 'circle' ? 'bg-primary text-primary-foreground' : 'bg-background'}`}
+        title="在地圖上繪製圓形範圍"
+      >
+        <Circle className="w-3.5 h-3.5" />
+      </button>
+      {selection.area && (
+        <button
+          type="button"
+          onClick={() => onChange({ ...selection, area: null })}
+          className="border rounded p-1 bg-background text-muted-foreground hover:text-foreground"
+          title="清除繪製的範圍"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// 從 URL 讀取地區選擇（region 參數為逗號分隔的地區，area 參數為繪製的範圍）
+export const useRegionSelection = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const regionParam = searchParams.get('region');
+  const areaParam = searchParams.get('area');
+
+  const regionSelection = useMemo((): RegionSelection => ({
+    regions: parseRegionParam(regionParam),
+    area: parseAreaParam(areaParam)
+  }), [regionParam, areaParam]);
+
+  // 更新 URL 參數，未篩選時不寫入 URL
+  const handleRegionSelectionChange = useCallback((selection: RegionSelection) => {
+    const params = new URLSearchParams(window.location.search);
+
+    const region = serializeRegionParam(selection.regions);
+    if (region) {
+      params.set('region', region);
+    } else {
+      params.delete('region');
+    }
+
+    if (selection.area) {
+      params.set('area', serializeAreaParam(selection.area));
+    } else {
+      params.delete('area');
+    }
+
+    router.push(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  return {
+    regionSelection,
+    handleRegionSelectionChange
+  };
+};
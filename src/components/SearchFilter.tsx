@@ -0,0 +1,88 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Search, X } from 'lucide-react';
+import { parseSearchQuery } from '@/utils/searchIndex';
+
+// 輸入停止後才更新 URL，避免每個字都觸發重新篩選
+const SEARCH_DEBOUNCE_MS = 300;
+
+export interface SearchFilterProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  className?: string;
+}
+
+export const SearchFilterComponent: React.FC<SearchFilterProps> = ({
+  query,
+  onQueryChange,
+  className = ''
+}) => {
+  const [value, setValue] = useState(query);
+
+  // URL 變更（例如返回上一頁）時同步輸入框
+  useEffect(() => {
+    setValue(query);
+  }, [query]);
+
+  useEffect(() => {
+    if (value === query) return;
+    const timer = setTimeout(() => onQueryChange(value), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value, query, onQueryChange]);
+
+  return (
+    <div className={`relative flex items-center ${className}`}>
+      <Search className="absolute left-2 w-3.5 h-3.5 text-muted-foreground pointer-events-none" />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="搜尋標題或內文"
+        title={'支援 "片語"、-排除、title: 與 body: 前綴'}
+        className="w-full border rounded pl-7 pr-7 py-1 text-xs bg-background [&::-webkit-search-cancel-button]:hidden"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => {
+            setValue('');
+            onQueryChange('');
+          }}
+          className="absolute right-2 text-muted-foreground hover:text-foreground"
+          aria-label="清除搜尋"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// 從 URL 讀取搜尋字串（q 參數）
+export const useSearchFilter = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const searchQuery = searchParams.get('q') ?? '';
+  const searchTerms = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  const handleSearchQueryChange = useCallback((query: string) => {
+    const params = new URLSearchParams(window.location.search);
+
+    if (query.trim()) {
+      params.set('q', query);
+    } else {
+      params.delete('q');
+    }
+
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  return {
+    searchQuery,
+    searchTerms,
+    handleSearchQueryChange
+  };
+};
@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// 只在正式環境註冊 Service Worker，避免開發時快取舊的程式碼
+export function ServiceWorkerRegister() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js', { scope: '/' }).catch((err) => {
+      console.error('Service Worker 註冊失敗:', err);
+    });
+  }, []);
+
+  return null;
+}
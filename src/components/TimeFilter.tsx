@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { useRouter, useSearchParams } from 'next/navigation';
 
@@ -242,10 +242,37 @@ export const useTimeFilter = () => {
     [timeFilter, startDate, endDate]
   );
 
+  // 目前篩選條件需要的時間範圍，供分頁載入時只請求所需區間
+  const timeRange = useMemo((): { start: number; end: number } | null => {
+    const recentHours: Partial<Record<TimeFilter, number>> = {
+      recent1h: 1,
+      recent3h: 3,
+      recent6h: 6,
+      recent12h: 12,
+      recent24h: 24
+    };
+    
+    const hours = recentHours[timeFilter];
+    if (hours) {
+      const now = Date.now();
+      return { start: now - hours * 60 * 60 * 1000, end: now };
+    }
+    
+    if (timeFilter === 'timeSlot' && startDate && endDate) {
+      return {
+        start: new Date(startDate).getTime(),
+        end: new Date(endDate + 'T23:59:59').getTime()
+      };
+    }
+    
+    return null;
+  }, [timeFilter, startDate, endDate]);
+
   return {
     timeFilter,
     startDate,
     endDate,
+    timeRange,
     handleTimeFilterChange,
     handleStartDateChange,
     handleEndDateChange,
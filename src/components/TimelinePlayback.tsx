@@ -0,0 +1,276 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Bookmark, BookmarkMinus, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_TIMELINE_PLAYBACK_OPTIONS,
+  PLAYBACK_SPEEDS,
+  PlaybackRange,
+  TimelinePlaybackOptions
+} from '@/utils/timelinePlayback';
+
+// 播放時每次前進的間隔
+const PLAYBACK_TICK_MS = 100;
+
+// 拖曳時間軸停止後才更新 URL
+const PLAYBACK_URL_DEBOUNCE_MS = 300;
+
+function formatPlaybackTime(time: number): string {
+  return new Date(time).toLocaleString('zh-TW', {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+}
+
+export interface TimelinePlaybackProps {
+  range: PlaybackRange;
+  currentTime: number;
+  playing: boolean;
+  options: TimelinePlaybackOptions;
+  activeCount: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onOptionsChange: (options: TimelinePlaybackOptions) => void;
+}
+
+export const TimelinePlaybackComponent: React.FC<TimelinePlaybackProps> = ({
+  range,
+  currentTime,
+  playing,
+  options,
+  activeCount,
+  onPlay,
+  onPause,
+  onSeek,
+  onOptionsChange
+}) => {
+  const duration = Math.max(range.end - range.start, 1);
+  const currentFrame = options.frames.find(frame => Math.abs(frame - currentTime) < 1000);
+  const previousFrame = [...options.frames].reverse().find(frame => frame < currentTime - 1000);
+  const nextFrame = options.frames.find(frame => frame > currentTime + 1000);
+
+  const toggleFrame = () => {
+    const frames = currentFrame !== undefined
+      ? options.frames.filter(frame => frame !== currentFrame)
+      : [...options.frames, Math.round(currentTime)].sort((a, b) => a - b);
+    onOptionsChange({ ...options, frames });
+  };
+
+  return (
+    <div className="bg-background/95 backdrop-blur-sm border border-border/50 rounded-lg p-3 shadow-sm space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="default"
+          onClick={playing ? onPause : onPlay}
+          className="h-7 w-7 p-0"
+          aria-label={playing ? '暫停' : '播放'}
+        >
+          {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => previousFrame !== undefined && onSeek(previousFrame)}
+          disabled={previousFrame === undefined}
+          className="h-7 w-7 p-0"
+          title="上一個關鍵影格"
+        >
+          <SkipBack className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => nextFrame !== undefined && onSeek(nextFrame)}
+          disabled={nextFrame === undefined}
+          className="h-7 w-7 p-0"
+          title="下一個關鍵影格"
+        >
+          <SkipForward className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant={currentFrame !== undefined ? 'default' : 'outline'}
+          onClick={toggleFrame}
+          className="h-7 w-7 p-0"
+          title={currentFrame !== undefined ? '移除關鍵影格' : '將目前時間加入關鍵影格'}
+        >
+          {currentFrame !== undefined ? <BookmarkMinus className="w-3.5 h-3.5" /> : <Bookmark className="w-3.5 h-3.5" />}
+        </Button>
+
+        <span className="font-medium tabular-nums">{formatPlaybackTime(currentTime)}</span>
+        <span className="text-muted-foreground">顯示中 {activeCount} 則</span>
+
+        <select
+          value={options.speed}
+          onChange={(e) => onOptionsChange({ ...options, speed: Number(e.target.value) })}
+          className="ml-auto border rounded px-2 py-1 bg-background text-xs"
+          title="播放速度"
+        >
+          {PLAYBACK_SPEEDS.map(speed => (
+            <option key={speed.value} value={speed.value}>{speed.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="relative pt-2">
+        {/* 關鍵影格標記 */}
+        {options.frames.filter(frame => frame >= range.start && frame <= range.end).map(frame => (
+          <button
+            key={frame}
+            type="button"
+            onClick={() => onSeek(frame)}
+            className="absolute top-0 w-1.5 h-2 -ml-[3px] rounded-sm bg-amber-500"
+            style={{ left: `${((frame - range.start) / duration) * 100}%` }}
+            title={formatPlaybackTime(frame)}
+            aria-label={`跳到 ${formatPlaybackTime(frame)}`}
+          />
+        ))}
+        <input
+          type="range"
+          min={range.start}
+          max={range.end}
+          step={1000}
+          value={currentTime}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="w-full"
+          aria-label="播放時間"
+        />
+      </div>
+    </div>
+  );
+};
+
+// 從 URL 讀取時間軸播放設定（playback、pt 目前時間、speed、frames 關鍵影格），播放時只更新本地時間，暫停後寫回 URL
+export const useTimelinePlayback = (range: PlaybackRange | null) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const playbackParam = searchParams.get('playback');
+  const timeParam = searchParams.get('pt');
+  const speedParam = searchParams.get('speed');
+  const framesParam = searchParams.get('frames');
+
+  const playbackOptions = useMemo((): TimelinePlaybackOptions => {
+    const speed = Number(speedParam);
+    return {
+      enabled: playbackParam === '1',
+      speed: PLAYBACK_SPEEDS.some(option => option.value === speed) ? speed : DEFAULT_TIMELINE_PLAYBACK_OPTIONS.speed,
+      frames: (framesParam ?? '')
+        .split(',')
+        .map(Number)
+        .filter(frame => Number.isFinite(frame) && frame > 0)
+        .sort((a, b) => a - b)
+    };
+  }, [playbackParam, speedParam, framesParam]);
+
+  const urlTime = timeParam && Number.isFinite(Number(timeParam)) ? Number(timeParam) : null;
+  const [localTime, setLocalTime] = useState<number | null>(urlTime);
+  const [playing, setPlaying] = useState(false);
+  const playingRef = useRef(playing);
+  playingRef.current = playing;
+
+  // URL 變更（例如開啟分享的連結、返回上一頁）時同步目前時間
+  useEffect(() => {
+    if (!playingRef.current) setLocalTime(urlTime);
+  }, [urlTime]);
+
+  // 目前時間限制在播放範圍內，尚未設定時從頭開始
+  const currentTime = range
+    ? Math.min(Math.max(localTime ?? range.start, range.start), range.end)
+    : null;
+
+  const updateParams = useCallback((update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(window.location.search);
+    update(params);
+    router.replace(`${window.location.pathname}?${params.toString()}`, { scroll: false });
+  }, [router]);
+
+  // 播放中定時前進
+  useEffect(() => {
+    if (!playing || !range) return;
+
+    const interval = setInterval(() => {
+      setLocalTime(previous => {
+        const base = Math.max(previous ?? range.start, range.start);
+        return Math.min(base + PLAYBACK_TICK_MS * playbackOptions.speed, range.end);
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [playing, range, playbackOptions.speed]);
+
+  // 播放到結尾時停止
+  useEffect(() => {
+    if (playing && range && currentTime !== null && currentTime >= range.end) {
+      setPlaying(false);
+    }
+  }, [playing, range, currentTime]);
+
+  // 暫停時將目前時間寫入 URL
+  useEffect(() => {
+    if (playing || !playbackOptions.enabled || currentTime === null) return;
+
+    const roundedTime = Math.round(currentTime);
+    if (roundedTime === urlTime) return;
+
+    const timer = setTimeout(() => {
+      updateParams(params => params.set('pt', String(roundedTime)));
+    }, PLAYBACK_URL_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [playing, playbackOptions.enabled, currentTime, urlTime, updateParams]);
+
+  const play = useCallback(() => {
+    // 已在結尾時從頭播放
+    if (range && currentTime !== null && currentTime >= range.end) {
+      setLocalTime(range.start);
+    }
+    setPlaying(true);
+  }, [range, currentTime]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const seek = useCallback((time: number) => setLocalTime(time), []);
+
+  // 更新 URL 參數，預設值不寫入 URL；關閉播放時一併移除其他設定
+  const handlePlaybackOptionsChange = useCallback((options: TimelinePlaybackOptions) => {
+    if (!options.enabled) setPlaying(false);
+
+    updateParams(params => {
+      params.delete('playback');
+      params.delete('pt');
+      params.delete('speed');
+      params.delete('frames');
+
+      if (!options.enabled) return;
+
+      params.set('playback', '1');
+      if (currentTime !== null) {
+        params.set('pt', String(Math.round(currentTime)));
+      }
+      if (options.speed !== DEFAULT_TIMELINE_PLAYBACK_OPTIONS.speed) {
+        params.set('speed', String(options.speed));
+      }
+      if (options.frames.length > 0) {
+        params.set('frames', options.frames.join(','));
+      }
+    });
+  }, [updateParams, currentTime]);
+
+  return {
+    playbackOptions,
+    handlePlaybackOptionsChange,
+    currentTime,
+    playing,
+    play,
+    pause,
+    seek
+  };
+};
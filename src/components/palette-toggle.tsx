@@ -0,0 +1,28 @@
+'use client';
+
+import * as React from 'react';
+import { Eye, Palette } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { usePaletteContext } from '@/contexts/PaletteContext';
+import { COLOR_PALETTE_LABELS } from '@/utils/notificationPalette';
+
+export function PaletteToggle() {
+  const { palette, setPalette } = usePaletteContext();
+  const next = palette === 'standard' ? 'accessible' : 'standard';
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={() => setPalette(next)}
+      title={`目前為${COLOR_PALETTE_LABELS[palette]}，點擊切換為${COLOR_PALETTE_LABELS[next]}`}
+      aria-pressed={palette === 'accessible'}
+    >
+      {palette === 'accessible' ? (
+        <Eye className="h-4 w-4" />
+      ) : (
+        <Palette className="h-4 w-4" />
+      )}
+    </Button>
+  );
+}
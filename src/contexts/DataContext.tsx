@@ -1,12 +1,14 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { useNotifications } from '@/hooks/useNotifications';
 import { useRegionData } from '@/hooks/useRegionData';
+import { useLiveNotifications, LiveTransport, LiveStatus } from '@/hooks/useLiveNotifications';
 import { useLimitContext } from '@/contexts/LimitContext';
-import { precomputeAllRegionMatches } from '@/utils/regionMatcher';
+import { useRegionMatchWorker, RegionMatchProgress } from '@/hooks/useRegionMatchWorker';
 import type { NotificationRecord } from '@/types/notify';
 import type { RegionData } from '@/hooks/useRegionData';
+import type { RegionMatchDiagnostics, RegionMatchMode, RegionMatchResult } from '@/utils/regionMatcher';
 
 interface DataContextType {
   // 通知資料
@@ -14,23 +16,50 @@ interface DataContextType {
   notificationsLoading: boolean;
   notificationsError: string | null;
   
+  // 分頁載入
+  hasMoreNotifications: boolean;
+  loadingMoreNotifications: boolean;
+  loadMoreNotifications: () => void;
+  loadNotificationsSince: (after: number) => void;
+  
   // 地區資料
   regionData: RegionData | null;
-  gridMatrix: Map<string, number> | null;
   regionDataLoading: boolean;
   regionDataError: string | null;
   
-  // 預計算狀態
+  // 離線快取：目前顯示 IndexedDB 快取資料時為快取時間，否則為 null
+  cachedDataAt: number | null;
+  
+  // 預計算狀態（由 Worker 計算多邊形通知的地區匹配）
   precomputeCompleted: boolean;
   precomputeLoading: boolean;
+  precomputeProgress: RegionMatchProgress | null;
+  // 多邊形通知的地區匹配結果（以通知識別碼為鍵），傳入地區篩選函數
+  regionMatches: ReadonlyMap<string, RegionMatchResult>;
+  // 地區匹配模式：網格抽樣或以鄉鎮界線精確計算
+  regionMatchMode: RegionMatchMode;
+  setRegionMatchMode: (mode: RegionMatchMode) => void;
+  // 取得單一通知的匹配診斷（網格抽樣點、備用方案）
+  diagnoseRegionMatch: (notification: NotificationRecord) => Promise<RegionMatchDiagnostics>;
   
   // 統合狀態
   isDataReady: boolean;
   
   // 重新載入功能
   refetchNotifications: () => void;
+  
+  // 即時模式
+  liveMode: boolean;
+  setLiveMode: (enabled: boolean) => void;
+  liveTransport: LiveTransport;
+  setLiveTransport: (transport: LiveTransport) => void;
+  liveStatus: LiveStatus;
+  newNotificationIds: Set<string>;
 }
 
+// 新通知維持高亮的時間
+const NEW_NOTIFICATION_HIGHLIGHT_DURATION = 2 * 60 * 1000;
+
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
 export function useDataContext() {
@@ -42,9 +71,11 @@ export function useDataContext() {
 }
 
 export function DataProvider({ children }: { children: React.ReactNode }) {
-  const [precomputeCompleted, setPrecomputeCompleted] = useState(false);
-  const [precomputeLoading, setPrecomputeLoading] = useState(false);
   const [isClient, setIsClient] = useState(false);
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveTransport, setLiveTransport] = useState<LiveTransport>('sse');
+  const [regionMatchMode, setRegionMatchMode] = useState<RegionMatchMode>('grid');
+  const [newNotificationIds, setNewNotificationIds] = useState<Set<string>>(new Set());
   
   // 使用 LimitContext 的設定
   const { limitSetting } = useLimitContext();
@@ -54,14 +85,21 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     notifications,
     loading: notificationsLoading,
     error: notificationsError,
-    refetch: refetchNotifications
+    refetch: refetchNotifications,
+    hasMore: hasMoreNotifications,
+    loadingMore: loadingMoreNotifications,
+    cachedAt: notificationsCachedAt,
+    loadMore: loadMoreNotifications,
+    loadRange: loadNotificationsSince,
+    mergeNotifications
   } = useNotifications(limitSetting);
   
   const {
     regionData,
-    gridMatrix,
+    regionVersion,
     loading: regionDataLoading,
-    error: regionDataError
+    error: regionDataError,
+    cachedAt: regionDataCachedAt
   } = useRegionData();
   
   // 檢測客戶端環境
@@ -69,50 +107,84 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     setIsClient(true);
   }, []);
   
-  // 執行簡化的預計算（只在客戶端執行）
-  useEffect(() => {
-    if (isClient && notifications.length > 0 && regionData && gridMatrix && !precomputeCompleted && !precomputeLoading) {
-      setPrecomputeLoading(true);
-      
-      // 簡化預計算現在是同步的，速度極快
-      precomputeAllRegionMatches(notifications, regionData, gridMatrix)
-        .then(() => {
-          setPrecomputeCompleted(true);
-          setPrecomputeLoading(false);
-        })
-        .catch((error) => {
-          console.error('預計算失敗:', error);
-          setPrecomputeLoading(false);
-        });
-    }
-  }, [isClient, notifications, regionData, gridMatrix, precomputeCompleted, precomputeLoading]);
-  
-  // 當通知資料重新載入時，重置預計算狀態
-  useEffect(() => {
-    setPrecomputeCompleted(false);
-  }, [notifications]);
+  // 在 Worker 中計算多邊形通知的地區匹配，新增的通知只做增量計算
+  const {
+    progress: precomputeProgress,
+    completed: precomputeCompleted,
+    loading: precomputeLoading,
+    regionMatches,
+    diagnose: diagnoseRegionMatch,
+    error: regionMatchError
+  } = useRegionMatchWorker({
+    enabled: isClient,
+    notifications,
+    regionData,
+    regionVersion,
+    mode: regionMatchMode
+  });
+  
+  // 處理即時推送的通知：合併到列表並暫時高亮
+  const handleLiveRecords = useCallback((records: NotificationRecord[]) => {
+    const newRecords = mergeNotifications(records);
+    if (newRecords.length === 0) return;
+    
+    const ids = newRecords.map(n => n.id);
+    
+    setNewNotificationIds(prev => new Set([...prev, ...ids]));
+    setTimeout(() => {
+      setNewNotificationIds(prev => {
+        const next = new Set(prev);
+        ids.forEach(id => next.delete(id));
+        return next;
+      });
+    }, NEW_NOTIFICATION_HIGHLIGHT_DURATION);
+  }, [mergeNotifications]);
+  
+  const { status: liveStatus } = useLiveNotifications({
+    enabled: isClient && liveMode,
+    transport: liveTransport,
+    since: notifications.length > 0 ? notifications[0].timestamp : null,
+    onRecords: handleLiveRecords
+  });
   
   const isDataReady = isClient &&
                      !notificationsLoading && 
                      !regionDataLoading && 
-                     !precomputeLoading && 
                      precomputeCompleted &&
                      notifications.length > 0 &&
-                     regionData !== null &&
-                     gridMatrix !== null;
+                     regionData !== null;
+  
+  // 任一資料來源仍在使用快取時，以較舊的快取時間為準
+  const cachedTimes = [notificationsCachedAt, regionDataCachedAt].filter((time): time is number => time !== null);
+  const cachedDataAt = cachedTimes.length > 0 ? Math.min(...cachedTimes) : null;
   
   const value: DataContextType = {
     notifications,
     notificationsLoading,
     notificationsError,
+    hasMoreNotifications,
+    loadingMoreNotifications,
+    loadMoreNotifications,
+    loadNotificationsSince,
     regionData,
-    gridMatrix,
     regionDataLoading,
-    regionDataError,
+    regionDataError: regionDataError || regionMatchError,
+    cachedDataAt,
     precomputeCompleted,
     precomputeLoading,
+    precomputeProgress,
+    regionMatches,
+    regionMatchMode,
+    setRegionMatchMode,
+    diagnoseRegionMatch,
     isDataReady,
-    refetchNotifications
+    refetchNotifications,
+    liveMode,
+    setLiveMode,
+    liveTransport,
+    setLiveTransport,
+    liveStatus,
+    newNotificationIds
   };
   
   return (
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { ColorPalette, isColorPalette, PALETTE_COLORS, PaletteColors } from '@/utils/notificationPalette';
+
+const STORAGE_KEY = 'color-palette';
+
+interface PaletteContextType {
+  palette: ColorPalette;
+  colors: PaletteColors;
+  setPalette: (palette: ColorPalette) => void;
+}
+
+const PaletteContext = createContext<PaletteContextType | undefined>(undefined);
+
+// 配色方案與主題一樣屬於個人偏好，保存在 localStorage 而非 URL
+export function PaletteProvider({ children }: { children: ReactNode }) {
+  const [palette, setPaletteState] = useState<ColorPalette>('standard');
+
+  // 掛載後才讀取，避免伺服器與客戶端渲染結果不一致
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored && isColorPalette(stored)) setPaletteState(stored);
+    } catch {
+      // 無法存取 localStorage 時使用預設配色
+    }
+  }, []);
+
+  const setPalette = useCallback((value: ColorPalette) => {
+    setPaletteState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY, value);
+    } catch (error) {
+      console.warn('無法儲存配色設定:', error);
+    }
+  }, []);
+
+  return (
+    <PaletteContext.Provider value={{ palette, colors: PALETTE_COLORS[palette], setPalette }}>
+      {children}
+    </PaletteContext.Provider>
+  );
+}
+
+export function usePaletteContext() {
+  const context = useContext(PaletteContext);
+  if (context === undefined) {
+    throw new Error('usePaletteContext must be used within a PaletteProvider');
+  }
+  return context;
+}
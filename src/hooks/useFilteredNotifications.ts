@@ -1,99 +1,116 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { NotificationRecord } from '@/types/notify';
 import { useDataContext } from '@/contexts/DataContext';
 import { useTimeFilter } from '@/components/TimeFilter';
-import { filterNotificationsByRegionName } from '@/utils/regionMatcher';
+import { useRegionMatchFilter } from '@/components/RegionMatchFilter';
+import { useSearchFilter } from '@/components/SearchFilter';
+import { useCategoryFilter } from '@/components/CategoryFilter';
+import { createSearchIndex } from '@/utils/searchIndex';
+import { filterNotificationsByCategory } from '@/utils/notificationCategory';
+import {
+  filterNotificationsByRegionSelection,
+  isRegionSelectionEmpty,
+  RegionSelection
+} from '@/utils/regionSelection';
 
 export interface FilteredNotificationsResult {
   notifications: NotificationRecord[];
   timeFilteredNotifications: NotificationRecord[];
+  categoryFilteredNotifications: NotificationRecord[];
   regionFilteredNotifications: NotificationRecord[];
+  searchedNotifications: NotificationRecord[];
   finalNotifications: NotificationRecord[];
   loading: boolean;
   error: string | null;
   refetch: () => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => void;
 }
 
-export function useFilteredNotifications(regionFilter?: string | null) {
+export function useFilteredNotifications(regionSelection?: RegionSelection | null): FilteredNotificationsResult {
   const { 
     notifications, 
     notificationsLoading, 
     notificationsError,
     regionData, 
-    gridMatrix, 
+    regionMatches,
     regionDataError,
     isDataReady,
-    refetchNotifications
+    refetchNotifications,
+    hasMoreNotifications,
+    loadingMoreNotifications,
+    loadMoreNotifications,
+    loadNotificationsSince
   } = useDataContext();
-  const { filterNotificationsByTime } = useTimeFilter();
+  const { filterNotificationsByTime, timeRange } = useTimeFilter();
+  const { regionMatchOptions } = useRegionMatchFilter();
+  const { searchTerms } = useSearchFilter();
+  const { categoryFilter } = useCategoryFilter();
+
+  // 時間篩選需要比目前已載入更舊的資料時，只請求缺少的區間
+  useEffect(() => {
+    if (timeRange && hasMoreNotifications) {
+      loadNotificationsSince(timeRange.start);
+    }
+  }, [timeRange, hasMoreNotifications, loadNotificationsSince]);
 
   // 1. 時間篩選
   const timeFilteredNotifications = useMemo(() => {
     return filterNotificationsByTime(notifications);
   }, [filterNotificationsByTime, notifications]);
 
-  // 2. 地區篩選
+  // 2. 類型與緊急程度篩選
+  const categoryFilteredNotifications = useMemo(() => {
+    return filterNotificationsByCategory(timeFilteredNotifications, categoryFilter);
+  }, [timeFilteredNotifications, categoryFilter]);
+
+  // 3. 地區篩選（多個地區與繪製範圍取聯集）
   const regionFilteredNotifications = useMemo(() => {
-    if (!regionFilter || !regionData || !gridMatrix) {
-      return timeFilteredNotifications;
+    if (!regionSelection || isRegionSelectionEmpty(regionSelection) || !regionData) {
+      return categoryFilteredNotifications;
     }
+    return filterNotificationsByRegionSelection(
+      categoryFilteredNotifications,
+      regionSelection,
+      regionData,
+      regionMatches,
+      regionMatchOptions
+    );
+  }, [categoryFilteredNotifications, regionSelection, regionData, regionMatches, regionMatchOptions]);
 
-    // 處理特殊的篩選條件
-    if (regionFilter === '全部(不指定地區的全部用戶廣播通知)') {
-      // 全國廣播：無codes和polygons，或codes不包含數字（非{topic}-{region code}格式）
-      return timeFilteredNotifications.filter(n => {
-        if (n.codes.length === 0 && n.Polygons.length === 0) return true;
-        if (n.codes.length > 0 && n.Polygons.length === 0) {
-          return !n.codes.some(code => /\d+/.test(String(code)));
-        }
-        return false;
-      });
-    }
-    
-    // 處理"其他地區"篩選條件 - 有地區代碼但無法匹配的通知
-    if (regionFilter === '其他地區') {
-      return timeFilteredNotifications.filter(notification => {
-        if (!regionData || notification.codes.length === 0) return false;
-        
-        // 檢查是否有數字格式的地區代碼但無法匹配
-        const hasRegionCode = notification.codes.some(code => /\d+/.test(String(code)));
-        if (!hasRegionCode) return false;
-        
-        // 檢查是否匹配任何已知地區
-        const hasMatch = notification.codes.some(code => {
-          return Object.values(regionData).some(districts => 
-            Object.values(districts).some(data => data.code === code)
-          );
-        }) || Object.keys(regionData).some(city => notification.title.includes(city));
-        
-        return !hasMatch;
-      });
-    }
-    
-    // 處理"未知區域廣播"篩選條件 - 有多邊形但無已知地區匹配
-    if (regionFilter === '未知區域廣播') {
-      return timeFilteredNotifications.filter(notification => {
-        return notification.Polygons.length > 0 && 
-               (!regionData || !Object.keys(regionData).some(city => notification.title.includes(city)));
-      });
+  // 搜尋索引涵蓋所有已載入的通知，有搜尋條件時才建立，載入更多或即時推送時重建
+  const searching = searchTerms.length > 0;
+  const searchIndex = useMemo(() => {
+    return searching ? createSearchIndex(notifications) : null;
+  }, [searching, notifications]);
+
+  // 4. 文字搜尋
+  const searchedNotifications = useMemo(() => {
+    const matchedIds = searchIndex?.search(searchTerms);
+    if (!matchedIds) {
+      return regionFilteredNotifications;
     }
-    
-    // 一般地區篩選
-    return filterNotificationsByRegionName(timeFilteredNotifications, regionFilter, regionData, gridMatrix);
-  }, [timeFilteredNotifications, regionFilter, regionData, gridMatrix]);
+    return regionFilteredNotifications.filter(n => matchedIds.has(n.id));
+  }, [searchIndex, searchTerms, regionFilteredNotifications]);
 
   // 最終結果
-  const finalNotifications = regionFilter ? regionFilteredNotifications : timeFilteredNotifications;
+  const finalNotifications = searchedNotifications;
 
   return {
     notifications,
     timeFilteredNotifications,
+    categoryFilteredNotifications,
     regionFilteredNotifications,
+    searchedNotifications,
     finalNotifications,
     loading: notificationsLoading || !isDataReady,
     error: notificationsError || regionDataError,
-    refetch: refetchNotifications
+    refetch: refetchNotifications,
+    hasMore: hasMoreNotifications,
+    loadingMore: loadingMoreNotifications,
+    loadMore: loadMoreNotifications
   };
 }
\ No newline at end of file
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { NotificationRecord } from '@/types/notify';
+import { normalizeNotificationRecords } from '@/utils/notificationNormalizer';
+
+export type LiveTransport = 'sse' | 'websocket';
+export type LiveStatus = 'idle' | 'connecting' | 'open' | 'error';
+
+const NOTIFY_STREAM_ENDPOINT = '/api/notify/stream';
+
+// WebSocket 推播來源（選用），未設定時僅能使用 SSE
+export const NOTIFY_WS_URL = process.env.NEXT_PUBLIC_NOTIFY_WS_URL || '';
+
+const WS_RECONNECT_BASE_DELAY = 1000;
+const WS_RECONNECT_MAX_DELAY = 30000;
+
+interface UseLiveNotificationsOptions {
+  enabled: boolean;
+  transport: LiveTransport;
+  since: number | null;
+  onRecords: (records: NotificationRecord[]) => void;
+}
+
+// 解析推播訊息，接受單筆、陣列或 { records } 格式
+function parseRecords(payload: unknown): unknown[] {
+  if (Array.isArray(payload)) return payload;
+  if (payload && typeof payload === 'object') {
+    const data = payload as { records?: unknown; timestamp?: unknown };
+    if (Array.isArray(data.records)) return data.records;
+    if (data.timestamp !== undefined) return [payload];
+  }
+  return [];
+}
+
+export function useLiveNotifications({ enabled, transport, since, onRecords }: UseLiveNotificationsOptions) {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+
+  // 使用 ref 保存最新的回呼與起點，避免重新建立連線
+  const onRecordsRef = useRef(onRecords);
+  const sinceRef = useRef(since);
+
+  useEffect(() => {
+    onRecordsRef.current = onRecords;
+  }, [onRecords]);
+
+  useEffect(() => {
+    sinceRef.current = since;
+  }, [since]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    const handlePayload = (raw: string) => {
+      try {
+        const { records } = normalizeNotificationRecords(parseRecords(JSON.parse(raw)));
+        if (records.length > 0) {
+          onRecordsRef.current(records);
+        }
+      } catch (err) {
+        console.error('無法解析即時通知:', err);
+      }
+    };
+
+    setStatus('connecting');
+
+    if (transport === 'websocket') {
+      if (!NOTIFY_WS_URL) {
+        console.error('未設定 NEXT_PUBLIC_NOTIFY_WS_URL，無法使用 WebSocket');
+        setStatus('error');
+        return;
+      }
+
+      let socket: WebSocket | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempts = 0;
+      let disposed = false;
+
+      const connect = () => {
+        socket = new WebSocket(NOTIFY_WS_URL);
+
+        socket.onopen = () => {
+          attempts = 0;
+          setStatus('open');
+        };
+
+        socket.onmessage = (event) => {
+          if (typeof event.data === 'string') {
+            handlePayload(event.data);
+          }
+        };
+
+        socket.onclose = () => {
+          if (disposed) return;
+          setStatus('connecting');
+          // 指數退避重新連線
+          const delay = Math.min(WS_RECONNECT_BASE_DELAY * 2 ** attempts, WS_RECONNECT_MAX_DELAY);
+          attempts++;
+          reconnectTimer = setTimeout(connect, delay);
+        };
+
+        socket.onerror = () => {
+          setStatus('error');
+        };
+      };
+
+      connect();
+
+      return () => {
+        disposed = true;
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        socket?.close();
+      };
+    }
+
+    const url = sinceRef.current
+      ? `${NOTIFY_STREAM_ENDPOINT}?since=${sinceRef.current}`
+      : NOTIFY_STREAM_ENDPOINT;
+    const source = new EventSource(url);
+
+    source.onopen = () => setStatus('open');
+    // EventSource 會自動重新連線，這裡只更新狀態
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+    source.addEventListener('notifications', (event) => {
+      handlePayload((event as MessageEvent<string>).data);
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [enabled, transport]);
+
+  return { status };
+}
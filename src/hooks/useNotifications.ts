@@ -1,80 +1,263 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { NotifyHistoryResponse, NotificationRecord } from '@/types/notify';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { NotifyHistoryPage, NotificationRecord } from '@/types/notify';
+import { normalizeNotificationRecords } from '@/utils/notificationNormalizer';
+import { getCacheMeta, getCachedNotifications, replaceCachedNotifications } from '@/lib/idb-cache';
 
 type LimitSetting = 'all' | number;
 
+// 透過伺服器端代理取得通知歷史，避免瀏覽器直接請求上游 API
+const NOTIFY_HISTORY_ENDPOINT = '/api/notify/history';
+
+// 'all' 模式下逐頁載入的每頁筆數
+const ALL_PAGE_SIZE = 1000;
+
+// 寫入 IndexedDB 前的延遲，避免逐頁載入時頻繁寫入
+const CACHE_WRITE_DELAY = 1000;
+
+interface HistoryPageQuery {
+  limit: LimitSetting;
+  before?: number;
+  after?: number;
+}
+
+// 取得一頁通知並完成正規化與排序
+async function fetchHistoryPage({ limit, before, after }: HistoryPageQuery) {
+  const params = new URLSearchParams({ limit: limit.toString() });
+  if (before !== undefined) params.set('before', before.toString());
+  if (after !== undefined) params.set('after', after.toString());
+
+  const response = await fetch(`${NOTIFY_HISTORY_ENDPOINT}?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data: NotifyHistoryPage = await response.json();
+
+  if (!data.success) {
+    throw new Error('API returned success: false');
+  }
+
+  // 驗證並正規化後按時間排序，最新的在前面
+  const { records } = normalizeNotificationRecords(data.records);
+  records.sort((a, b) => b.timestamp - a.timestamp);
+
+  return { records, nextCursor: data.nextCursor ?? null };
+}
+
+// 合併通知（以識別碼去重），回傳合併後的列表與實際新增的通知
+function mergeRecords(current: NotificationRecord[], incoming: NotificationRecord[]) {
+  const existing = new Set(current.map(n => n.id));
+  const added = incoming.filter(record => {
+    if (existing.has(record.id)) return false;
+    existing.add(record.id);
+    return true;
+  });
+
+  const merged = added.length > 0
+    ? [...current, ...added].sort((a, b) => b.timestamp - a.timestamp)
+    : current;
+
+  return { merged, added };
+}
+
+// 以網路取得的最新一頁與現有資料（快取）依 timestamp 對帳
+// 兩者時間範圍有重疊時保留較舊的現有資料，否則中間可能有缺口，只使用網路資料
+function reconcileWithExisting(
+  existing: NotificationRecord[],
+  page: NotificationRecord[],
+  nextCursor: number | null
+) {
+  if (nextCursor === null || page.length === 0 || existing.length === 0) {
+    return { records: page, nextCursor };
+  }
+
+  const oldestPageTimestamp = page[page.length - 1].timestamp;
+  if (existing[0].timestamp < oldestPageTimestamp) {
+    return { records: page, nextCursor };
+  }
+
+  const older = existing.filter(n => n.timestamp < oldestPageTimestamp);
+  if (older.length === 0) {
+    return { records: page, nextCursor };
+  }
+
+  const records = [...page, ...older];
+  return { records, nextCursor: records[records.length - 1].timestamp };
+}
+
 export function useNotifications(limit: LimitSetting = 'all') {
   const [notifications, setNotifications] = useState<NotificationRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  // 每次完整重新載入時遞增，讓使用端區分「重新載入」與「追加資料」
+  const [loadId, setLoadId] = useState(0);
+  // 目前顯示的是 IndexedDB 快取資料時，為快取寫入的時間
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const notificationsRef = useRef<NotificationRecord[]>([]);
+  const loadingMoreRef = useRef(false);
+  const loadIdRef = useRef(0);
+  // 目前列表載入時的每頁筆數，與新的每頁筆數不同時不沿用舊資料
+  const loadedPageSizeRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    const fetchNotifications = async () => {
-      try {
+  const pageSize = limit === 'all' ? ALL_PAGE_SIZE : limit;
+
+  const applyNotifications = useCallback((records: NotificationRecord[]) => {
+    notificationsRef.current = records;
+    setNotifications(records);
+  }, []);
+
+  const loadFirstPage = useCallback(async () => {
+    const requestId = ++loadIdRef.current;
+
+    try {
+      setError(null);
+
+      // 首次載入時先顯示 IndexedDB 快取，再與網路資料對帳
+      if (notificationsRef.current.length === 0) {
         setLoading(true);
-        setError(null);
-        
-        const response = await fetch(`https://api.exptech.dev/api/v2/notify/history?limit=${limit}`);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data: NotifyHistoryResponse = await response.json();
-        
-        if (!data.success) {
-          throw new Error('API returned success: false');
+        const [cachedRecords, savedAt, cachedPageSize] = await Promise.all([
+          getCachedNotifications(),
+          getCacheMeta<number>('notificationsSavedAt'),
+          getCacheMeta<number>('notificationsPageSize')
+        ]);
+        if (requestId !== loadIdRef.current) return;
+
+        if (cachedRecords.length > 0) {
+          loadedPageSizeRef.current = cachedPageSize ?? null;
+          applyNotifications(cachedRecords);
+          setCachedAt(savedAt ?? null);
+          setLoadId(prev => prev + 1);
+          setLoading(false);
         }
-        
-        // 按時間排序，最新的在前面
-        const sortedRecords = data.records.sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        );
-        
-        setNotifications(sortedRecords);
-      } catch (err) {
+      }
+
+      const page = await fetchHistoryPage({ limit: pageSize });
+      if (requestId !== loadIdRef.current) return;
+
+      // 切換每頁筆數時重新開始，否則舊的較大列表會被併回，limit 形同無效
+      const existing = loadedPageSizeRef.current === pageSize ? notificationsRef.current : [];
+      const { records, nextCursor } = reconcileWithExisting(existing, page.records, page.nextCursor);
+      loadedPageSizeRef.current = pageSize;
+      applyNotifications(records);
+      setNextCursor(nextCursor);
+      setCachedAt(null);
+      setLoadId(prev => prev + 1);
+    } catch (err) {
+      if (requestId !== loadIdRef.current) return;
+      if (notificationsRef.current.length > 0) {
+        // 離線或上游失敗時繼續顯示既有資料
+        console.warn('無法更新通知，繼續使用現有資料:', err);
+      } else {
         console.error('Failed to fetch notifications:', err);
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
-      } finally {
+      }
+    } finally {
+      if (requestId === loadIdRef.current) {
         setLoading(false);
       }
-    };
+    }
+  }, [pageSize, applyNotifications]);
 
-    fetchNotifications();
-  }, [limit]);
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
 
   const refetch = () => {
-    const fetchNotifications = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const response = await fetch(`https://api.exptech.dev/api/v2/notify/history?limit=${limit}`);
-        const data: NotifyHistoryResponse = await response.json();
-        
-        if (data.success) {
-          const sortedRecords = data.records.sort((a, b) => 
-            new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-          );
-          setNotifications(sortedRecords);
-        }
-      } catch (err) {
-        console.error('Failed to refresh notifications:', err);
-        setError(err instanceof Error ? err.message : 'Unknown error occurred');
-      } finally {
-        setLoading(false);
+    loadFirstPage();
+  };
+
+  // 以最舊一筆為游標載入下一頁
+  const loadMore = useCallback(async () => {
+    if (nextCursor === null || loadingMoreRef.current) return;
+
+    const requestId = loadIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchHistoryPage({ limit: pageSize, before: nextCursor });
+      if (requestId !== loadIdRef.current) return;
+
+      applyNotifications(mergeRecords(notificationsRef.current, page.records).merged);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more notifications:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [nextCursor, pageSize, applyNotifications]);
+
+  // 載入指定時間範圍內尚未載入的通知（從目前最舊一筆往回補到 after）
+  const loadRange = useCallback(async (after: number) => {
+    if (nextCursor === null || nextCursor <= after || loadingMoreRef.current) return;
+
+    const requestId = loadIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchHistoryPage({ limit: 'all', before: nextCursor, after });
+      if (requestId !== loadIdRef.current) return;
+
+      applyNotifications(mergeRecords(notificationsRef.current, page.records).merged);
+      // 範圍內已全部載入，下一頁從範圍起點往前
+      setNextCursor(after);
+    } catch (err) {
+      console.error('Failed to load notification range:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [nextCursor, applyNotifications]);
+
+  // 網路資料更新後寫入 IndexedDB（顯示快取資料時不需要寫回）
+  useEffect(() => {
+    if (cachedAt !== null || notifications.length === 0) return;
+
+    const timer = setTimeout(() => {
+      if (loadedPageSizeRef.current !== null) {
+        replaceCachedNotifications(notifications, loadedPageSizeRef.current);
       }
-    };
+    }, CACHE_WRITE_DELAY);
 
-    fetchNotifications();
-  };
+    return () => clearTimeout(timer);
+  }, [notifications, cachedAt]);
+
+  // 'all' 模式：以每頁 1000 筆依序載入完整歷史，每頁到達時列表即可先顯示
+  useEffect(() => {
+    if (limit === 'all' && !loading && !loadingMore && nextCursor !== null && !error) {
+      loadMore();
+    }
+  }, [limit, loading, loadingMore, nextCursor, error, loadMore]);
+
+  // 合併即時推送的通知（以識別碼去重），回傳實際新增的通知
+  const mergeNotifications = useCallback((records: NotificationRecord[]): NotificationRecord[] => {
+    const { merged, added } = mergeRecords(notificationsRef.current, records);
+    if (added.length > 0) {
+      applyNotifications(merged);
+    }
+    return added;
+  }, [applyNotifications]);
 
   return {
     notifications,
     loading,
+    loadingMore,
     error,
+    hasMore: nextCursor !== null,
+    loadId,
+    cachedAt,
     refetch,
+    loadMore,
+    loadRange,
+    mergeNotifications,
   };
-}
\ No newline at end of file
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { getCacheMeta, setCacheMeta } from '@/lib/idb-cache';
+import { hashString } from '@/lib/hash';
 
 export interface RegionData {
   [city: string]: {
@@ -14,18 +16,33 @@ export interface RegionData {
 
 export interface UseRegionDataReturn {
   regionData: RegionData | null;
-  gridMatrix: Map<string, number> | null;
+  // region.json 內容雜湊，網格矩陣與地區匹配快取以此判斷是否失效
+  regionVersion: string | null;
   loading: boolean;
   error: string | null;
+  // 目前顯示的是 IndexedDB 快取資料時，為快取建立的時間
+  cachedAt: number | null;
 }
 
+interface LoadedRegionData {
+  data: RegionData;
+  version: string;
+}
+
+// IndexedDB 中的快取格式
+interface CachedRegionData {
+  version: string;
+  data: RegionData;
+  cachedAt: number;
+}
+
+const REGION_DATA_CACHE_KEY = 'regionData';
+
 // 全域快取
-let regionDataCache: RegionData | null = null;
-let gridMatrixCache: Map<string, number> | null = null;
-let regionDataPromise: Promise<RegionData> | null = null;
-let gridMatrixPromise: Promise<Map<string, number>> | null = null;
+let regionDataCache: LoadedRegionData | null = null;
+let regionDataPromise: Promise<LoadedRegionData> | null = null;
 
-const loadRegionData = (): Promise<RegionData> => {
+const loadRegionData = (): Promise<LoadedRegionData> => {
   if (regionDataCache) {
     return Promise.resolve(regionDataCache);
   }
@@ -39,11 +56,13 @@ const loadRegionData = (): Promise<RegionData> => {
       if (!res.ok) {
         throw new Error(`Failed to load region data: ${res.status}`);
       }
-      return res.json();
+      return res.text();
     })
-    .then(data => {
-      regionDataCache = data;
-      return data;
+    .then(text => {
+      // 以內容雜湊作為版本，region.json 更新時讓舊的網格快取失效
+      const loaded: LoadedRegionData = { data: JSON.parse(text), version: hashString(text) };
+      regionDataCache = loaded;
+      return loaded;
     })
     .catch(err => {
       regionDataPromise = null; // 失敗時重置 promise
@@ -53,68 +72,57 @@ const loadRegionData = (): Promise<RegionData> => {
   return regionDataPromise;
 };
 
-const loadGridMatrix = (): Promise<Map<string, number>> => {
-  if (gridMatrixCache) {
-    return Promise.resolve(gridMatrixCache);
-  }
-  
-  if (gridMatrixPromise) {
-    return gridMatrixPromise;
-  }
-  
-  gridMatrixPromise = fetch('https://raw.githubusercontent.com/ExpTechTW/dpip-notify-map/refs/heads/main/public/grid-matrix.json')
-    .then(res => {
-      if (!res.ok) {
-        throw new Error(`Failed to load grid matrix: ${res.status}`);
-      }
-      return res.json();
-    })
-    .then(data => {
-      const matrix = new Map<string, number>();
-      Object.entries(data).forEach(([key, value]) => {
-        matrix.set(key, value as number);
-      });
-      gridMatrixCache = matrix;
-      return matrix;
-    })
-    .catch(err => {
-      gridMatrixPromise = null; // 失敗時重置 promise
-      throw err;
-    });
-  
-  return gridMatrixPromise;
-};
-
 export const useRegionData = (): UseRegionDataReturn => {
-  const [regionData, setRegionData] = useState<RegionData | null>(regionDataCache);
-  const [gridMatrix, setGridMatrix] = useState<Map<string, number> | null>(gridMatrixCache);
+  const [regionData, setRegionData] = useState<RegionData | null>(regionDataCache?.data ?? null);
+  const [regionVersion, setRegionVersion] = useState<string | null>(regionDataCache?.version ?? null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
       // 如果已經有快取資料，直接使用
-      if (regionDataCache && gridMatrixCache) {
-        setRegionData(regionDataCache);
-        setGridMatrix(gridMatrixCache);
+      if (regionDataCache) {
+        setRegionData(regionDataCache.data);
+        setRegionVersion(regionDataCache.version);
         return;
       }
 
       setLoading(true);
       setError(null);
 
+      // 先顯示 IndexedDB 快取，再與網路資料比對
+      const cached = await getCacheMeta<CachedRegionData>(REGION_DATA_CACHE_KEY);
+      if (cached) {
+        setRegionData(cached.data);
+        setRegionVersion(cached.version);
+        setCachedAt(cached.cachedAt);
+        setLoading(false);
+      }
+
       try {
-        const [regionResult, gridResult] = await Promise.all([
-          loadRegionData(),
-          loadGridMatrix()
-        ]);
+        const regionResult = await loadRegionData();
+
+        if (!cached || cached.version !== regionResult.version) {
+          setCacheMeta<CachedRegionData>(REGION_DATA_CACHE_KEY, {
+            version: regionResult.version,
+            data: regionResult.data,
+            cachedAt: Date.now()
+          });
+        }
 
-        setRegionData(regionResult);
-        setGridMatrix(gridResult);
+        setRegionData(regionResult.data);
+        setRegionVersion(regionResult.version);
+        setCachedAt(null);
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : '載入資料失敗';
-        console.error('載入地區資料失敗:', err);
-        setError(errorMessage);
+        if (cached) {
+          // 離線時繼續使用快取資料
+          console.warn('無法更新地區資料，使用快取:', err);
+        } else {
+          const errorMessage = err instanceof Error ? err.message : '載入資料失敗';
+          console.error('載入地區資料失敗:', err);
+          setError(errorMessage);
+        }
       } finally {
         setLoading(false);
       }
@@ -125,8 +133,9 @@ export const useRegionData = (): UseRegionDataReturn => {
 
   return {
     regionData,
-    gridMatrix,
+    regionVersion,
     loading,
-    error
+    error,
+    cachedAt
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useDataContext } from '@/contexts/DataContext';
+import { NotificationRecord } from '@/types/notify';
+import { RegionMatchDiagnostics } from '@/utils/regionMatcher';
+
+// 開啟診斷時向 Worker 取得選取通知的匹配診斷資訊
+export function useRegionMatchDiagnostics(notification: NotificationRecord | null, enabled: boolean) {
+  const { diagnoseRegionMatch } = useDataContext();
+  const [diagnostics, setDiagnostics] = useState<RegionMatchDiagnostics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDiagnostics(null);
+    setError(null);
+    if (!enabled || !notification) {
+      setLoading(false);
+      return;
+    }
+
+    // 選取其他通知後忽略較早回傳的結果
+    let cancelled = false;
+    setLoading(true);
+
+    diagnoseRegionMatch(notification)
+      .then(result => {
+        if (!cancelled) setDiagnostics(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('取得地區匹配診斷失敗:', err);
+        setError(err instanceof Error ? err.message : '取得地區匹配診斷失敗');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [notification, enabled, diagnoseRegionMatch]);
+
+  return { diagnostics, loading, error };
+}
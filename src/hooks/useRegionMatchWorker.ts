@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NotificationRecord } from '@/types/notify';
+import { RegionData } from '@/hooks/useRegionData';
+import { RegionWorkerRequest, RegionWorkerResponse } from '@/types/regionWorker';
+import { RegionMatchDiagnostics, RegionMatchMode, RegionMatchResult } from '@/utils/regionMatcher';
+
+export interface RegionMatchProgress {
+  completed: number;
+  total: number;
+}
+
+interface UseRegionMatchWorkerOptions {
+  enabled: boolean;
+  notifications: NotificationRecord[];
+  regionData: RegionData | null;
+  regionVersion: string | null;
+  mode: RegionMatchMode;
+}
+
+// 將多邊形通知交給 Worker 計算地區匹配，回傳以通知識別碼為鍵的匹配結果
+export function useRegionMatchWorker({ enabled, notifications, regionData, regionVersion, mode }: UseRegionMatchWorkerOptions) {
+  const [worker, setWorker] = useState<Worker | null>(null);
+  // 目前 Worker 使用的地區資料版本與匹配模式
+  const [initializedKey, setInitializedKey] = useState<string | null>(null);
+  const [progress, setProgress] = useState<RegionMatchProgress | null>(null);
+  const [completed, setCompleted] = useState(false);
+  // 工作完成時替換為新的 Map，讓使用端的篩選重新計算
+  const [regionMatches, setRegionMatches] = useState<ReadonlyMap<string, RegionMatchResult>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  // 各工作的進度與送出的通知，以及已送出但尚未回傳結果的通知
+  const jobsRef = useRef(new Map<number, RegionMatchProgress>());
+  const jobTargetsRef = useRef(new Map<number, string[]>());
+  const pendingRef = useRef(new Set<string>());
+  // 逐批累積的結果；每批都複製整個 Map 在大量歷史時為平方成本，因此只在工作結束時發佈
+  const regionMatchesRef = useRef(new Map<string, RegionMatchResult>());
+  // 等待 Worker 回傳的診斷請求
+  const diagnoseRequestsRef = useRef(new Map<number, {
+    resolve: (diagnostics: RegionMatchDiagnostics) => void;
+    reject: (error: Error) => void;
+  }>());
+  const jobIdRef = useRef(0);
+
+  // 建立 Worker
+  useEffect(() => {
+    if (!enabled) return;
+
+    const instance = new Worker(new URL('../workers/regionMatch.worker.ts', import.meta.url));
+    const jobs = jobsRef.current;
+    const jobTargets = jobTargetsRef.current;
+    const pending = pendingRef.current;
+    const diagnoseRequests = diagnoseRequestsRef.current;
+
+    const publishMatches = () => setRegionMatches(new Map(regionMatchesRef.current));
+
+    // 合計所有進行中工作的進度
+    const updateProgress = () => {
+      if (jobs.size === 0) {
+        setProgress(null);
+        setCompleted(true);
+        return;
+      }
+      let completedCount = 0;
+      let totalCount = 0;
+      jobs.forEach(job => {
+        completedCount += job.completed;
+        totalCount += job.total;
+      });
+      setProgress({ completed: completedCount, total: totalCount });
+    };
+
+    instance.onmessage = (event: MessageEvent<RegionWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'ready':
+          console.log(`網格矩陣已載入（${message.gridSize} 點${message.fromCache ? '，來自快取' : ''}）`);
+          break;
+        case 'progress':
+          // 已取消的工作不再寫入結果
+          if (!jobs.has(message.jobId)) return;
+          message.matches.forEach(([id, match]) => {
+            regionMatchesRef.current.set(id, match);
+            pending.delete(id);
+          });
+          jobs.set(message.jobId, { completed: message.completed, total: message.total });
+          updateProgress();
+          break;
+        case 'done':
+          if (!jobs.delete(message.jobId)) return;
+          jobTargets.delete(message.jobId);
+          publishMatches();
+          console.log(`✅ 地區匹配完成！耗時 ${message.duration.toFixed(2)}ms`);
+          updateProgress();
+          break;
+        case 'diagnostics':
+          diagnoseRequests.get(message.jobId)?.resolve(message.diagnostics);
+          diagnoseRequests.delete(message.jobId);
+          break;
+        case 'error':
+          // 診斷失敗只回報給呼叫端，不影響整體匹配狀態
+          if (message.jobId !== null && diagnoseRequests.has(message.jobId)) {
+            diagnoseRequests.get(message.jobId)!.reject(new Error(message.message));
+            diagnoseRequests.delete(message.jobId);
+            return;
+          }
+          console.error('地區匹配失敗:', message.message);
+          setError(message.message);
+          if (message.jobId !== null && jobs.delete(message.jobId)) {
+            // 未完成的通知移出等待清單，之後的工作可以重新計算
+            jobTargets.get(message.jobId)?.forEach(id => pending.delete(id));
+            jobTargets.delete(message.jobId);
+            publishMatches();
+            updateProgress();
+          }
+          break;
+      }
+    };
+
+    instance.onerror = (event) => {
+      console.error('地區匹配 Worker 發生錯誤:', event.message);
+      setError(event.message || '地區匹配 Worker 發生錯誤');
+    };
+
+    setWorker(instance);
+
+    return () => {
+      instance.terminate();
+      jobs.clear();
+      jobTargets.clear();
+      pending.clear();
+      diagnoseRequests.forEach(request => request.reject(new Error('Region worker terminated')));
+      diagnoseRequests.clear();
+      setWorker(null);
+      setInitializedKey(null);
+    };
+  }, [enabled]);
+
+  // 地區資料版本或匹配模式變更時取消進行中的工作並重新初始化
+  useEffect(() => {
+    if (!worker || !regionData || !regionVersion) return;
+
+    const key = `${regionVersion}:${mode}`;
+    if (key === initializedKey) return;
+
+    const post = (message: RegionWorkerRequest) => worker.postMessage(message);
+
+    jobsRef.current.forEach((_, jobId) => post({ type: 'cancel', jobId }));
+    jobsRef.current.clear();
+    jobTargetsRef.current.clear();
+    pendingRef.current.clear();
+    regionMatchesRef.current = new Map();
+    setRegionMatches(new Map());
+
+    post({ type: 'init', regionData, regionVersion, mode });
+    setInitializedKey(key);
+    setProgress(null);
+    setCompleted(false);
+    setError(null);
+  }, [worker, regionData, regionVersion, mode, initializedKey]);
+
+  // 只送出尚未計算的多邊形通知（分頁追加或即時合併時為增量計算）
+  useEffect(() => {
+    if (!worker || initializedKey === null) return;
+
+    const targets = notifications.filter(n =>
+      n.Polygons.length > 0 && !regionMatchesRef.current.has(n.id) && !pendingRef.current.has(n.id)
+    );
+
+    if (targets.length === 0) {
+      if (jobsRef.current.size === 0 && notifications.length > 0) {
+        setCompleted(true);
+      }
+      return;
+    }
+
+    const jobId = ++jobIdRef.current;
+    targets.forEach(n => pendingRef.current.add(n.id));
+    jobsRef.current.set(jobId, { completed: 0, total: targets.length });
+    jobTargetsRef.current.set(jobId, targets.map(n => n.id));
+
+    const message: RegionWorkerRequest = { type: 'match', jobId, notifications: targets };
+    worker.postMessage(message);
+
+    setProgress(prev => ({
+      completed: prev?.completed ?? 0,
+      total: (prev?.total ?? 0) + targets.length
+    }));
+  }, [worker, initializedKey, notifications]);
+
+  // 取得單一通知的匹配診斷；地區資料或匹配模式變更時會產生新的函數，讓使用端重新診斷
+  const diagnose = useCallback((notification: NotificationRecord): Promise<RegionMatchDiagnostics> => {
+    if (!worker || initializedKey === null) {
+      return Promise.reject(new Error('Region worker is not initialized'));
+    }
+
+    const jobId = ++jobIdRef.current;
+    const message: RegionWorkerRequest = { type: 'diagnose', jobId, notification };
+
+    return new Promise((resolve, reject) => {
+      diagnoseRequestsRef.current.set(jobId, { resolve, reject });
+      worker.postMessage(message);
+    });
+  }, [worker, initializedKey]);
+
+  return {
+    progress,
+    completed,
+    loading: progress !== null,
+    regionMatches,
+    diagnose,
+    error
+  };
+}
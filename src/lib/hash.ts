@@ -0,0 +1,9 @@
+// 計算字串的 FNV-1a 雜湊，用於判斷 region.json 是否變更與產生通知識別碼
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
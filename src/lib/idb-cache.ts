@@ -0,0 +1,113 @@
+import { NotificationRecord } from '@/types/notify';
+
+const DB_NAME = 'dpip-notify-map';
+// 版本 2：通知改以識別碼（id）為鍵
+const DB_VERSION = 2;
+
+const NOTIFICATIONS_STORE = 'notifications';
+const META_STORE = 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 開啟 IndexedDB，不支援或失敗時 reject，呼叫端應視為沒有快取
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // 舊版以 timestamp 為鍵且紀錄沒有 id，直接捨棄重建，下次連線時重新寫入
+      if (event.oldVersion < 2 && db.objectStoreNames.contains(NOTIFICATIONS_STORE)) {
+        db.deleteObjectStore(NOTIFICATIONS_STORE);
+      }
+      if (!db.objectStoreNames.contains(NOTIFICATIONS_STORE)) {
+        db.createObjectStore(NOTIFICATIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    dbPromise = null; // 失敗時重置 promise
+    throw err;
+  });
+
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// 讀取快取的通知（最新的在前面），沒有快取時回傳空陣列
+export async function getCachedNotifications(): Promise<NotificationRecord[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(NOTIFICATIONS_STORE, 'readonly').objectStore(NOTIFICATIONS_STORE);
+    const records = await promisifyRequest(store.getAll() as IDBRequest<NotificationRecord[]>);
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (err) {
+    console.warn('讀取通知快取失敗:', err);
+    return [];
+  }
+}
+
+// 以新的通知列表取代快取內容，並記錄列表載入時的每頁筆數
+export async function replaceCachedNotifications(records: NotificationRecord[], pageSize: number): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([NOTIFICATIONS_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(NOTIFICATIONS_STORE);
+
+    store.clear();
+    records.forEach(record => store.put(record));
+    transaction.objectStore(META_STORE).put(Date.now(), 'notificationsSavedAt');
+    transaction.objectStore(META_STORE).put(pageSize, 'notificationsPageSize');
+
+    await promisifyTransaction(transaction);
+  } catch (err) {
+    console.warn('寫入通知快取失敗:', err);
+  }
+}
+
+export async function getCacheMeta<T>(key: string): Promise<T | undefined> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    return await promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+  } catch (err) {
+    console.warn(`讀取快取 ${key} 失敗:`, err);
+    return undefined;
+  }
+}
+
+export async function setCacheMeta<T>(key: string, value: T): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(value, key);
+    await promisifyTransaction(transaction);
+  } catch (err) {
+    console.warn(`寫入快取 ${key} 失敗:`, err);
+  }
+}
@@ -0,0 +1,44 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { RegionData } from '@/hooks/useRegionData';
+import {
+  BoundaryFeatureCollections,
+  createBoundaryFeatureCollections,
+  createTownBoundaryIndex,
+  TownBoundaryIndex,
+  TownBoundaryTopology
+} from '@/utils/townBoundaries';
+
+// 伺服器端讀取 public 目錄中的行政區資料，供離線底圖與地圖匯出共用
+
+async function readPublicJson<T>(file: string): Promise<T> {
+  return JSON.parse(await readFile(join(process.cwd(), 'public', file), 'utf8'));
+}
+
+// 只讀取一次並共用結果，失敗時重置以便下次重試
+function cachedLoader<T>(load: () => Promise<T>): () => Promise<T> {
+  let promise: Promise<T> | null = null;
+  return () => {
+    if (!promise) {
+      promise = load();
+      promise.catch(() => {
+        promise = null;
+      });
+    }
+    return promise;
+  };
+}
+
+export const loadRegionData = cachedLoader(() => readPublicJson<RegionData>('region.json'));
+
+const loadTownTopology = cachedLoader(() => readPublicJson<TownBoundaryTopology>('town-boundaries.json'));
+
+// 鄉鎮與縣市界線共用同一次轉換結果
+export const loadBoundaryFeatureCollections = cachedLoader(async (): Promise<BoundaryFeatureCollections> => {
+  const [topology, regionData] = await Promise.all([loadTownTopology(), loadRegionData()]);
+  return createBoundaryFeatureCollections(topology, regionData);
+});
+
+export const loadTownBoundaryIndex = cachedLoader(
+  async (): Promise<TownBoundaryIndex> => createTownBoundaryIndex(await loadTownTopology())
+);
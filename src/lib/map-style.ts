@@ -0,0 +1,170 @@
+import type {
+  LayerSpecification,
+  Map as MaplibreMap,
+  SourceSpecification,
+  StyleSpecification
+} from 'maplibre-gl';
+
+// 行政區界線來源：remote 使用線上向量圖磚，local 使用本站 /api/map/boundaries 提供的 GeoJSON
+export type MapBoundarySource = 'remote' | 'local';
+
+const DEFAULT_RASTER_TILES_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_VECTOR_TILES_URL = 'https://lb.exptech.dev/api/v1/map/tiles/tiles.json';
+
+// 空字串表示不使用點陣底圖
+export const MAP_RASTER_TILES_URL = process.env.NEXT_PUBLIC_MAP_RASTER_TILES ?? DEFAULT_RASTER_TILES_URL;
+export const MAP_VECTOR_TILES_URL = process.env.NEXT_PUBLIC_MAP_VECTOR_TILES || DEFAULT_VECTOR_TILES_URL;
+export const MAP_BOUNDARY_SOURCE: MapBoundarySource =
+  process.env.NEXT_PUBLIC_MAP_BOUNDARIES === 'local' ? 'local' : 'remote';
+
+export const LOCAL_BOUNDARIES_URL = '/api/map/boundaries';
+
+// 圖層引用行政區界線時使用的來源；GeoJSON 來源沒有 source-layer
+export interface BoundaryLayerSource {
+  source: string;
+  'source-layer'?: string;
+}
+
+export interface BoundaryLayers {
+  town: BoundaryLayerSource;
+  county: BoundaryLayerSource;
+}
+
+export function getBoundaryLayers(source: MapBoundarySource): BoundaryLayers {
+  if (source === 'local') {
+    return {
+      town: { source: 'towns' },
+      county: { source: 'counties' }
+    };
+  }
+  return {
+    town: { source: 'map', 'source-layer': 'town' },
+    county: { source: 'map', 'source-layer': 'city' }
+  };
+}
+
+// 設定為 remote 但瀏覽器離線時改用本站界線，代碼通知的鄉鎮著色仍可運作
+export function resolveBoundarySource(): MapBoundarySource {
+  if (MAP_BOUNDARY_SOURCE === 'local') return 'local';
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'local';
+  return 'remote';
+}
+
+// 底圖主題，跟隨網站的淺色或深色模式
+export type MapTheme = 'light' | 'dark';
+
+interface MapThemeColors {
+  raster: {
+    'raster-brightness-min': number;
+    'raster-brightness-max': number;
+    'raster-contrast': number;
+    'raster-saturation': number;
+  };
+  background: string;
+  countyOutline: string;
+  townOutline: string;
+  // 疊加標示（例如比較模式的交集）需與底圖對比的顏色
+  contrast: string;
+}
+
+export const MAP_THEME_COLORS: Record<MapTheme, MapThemeColors> = {
+  light: {
+    raster: {
+      'raster-brightness-min': 0,
+      'raster-brightness-max': 1,
+      'raster-contrast': 0,
+      'raster-saturation': -0.4,
+    },
+    background: '#f1f5f9',
+    countyOutline: '#475569',
+    townOutline: '#94a3b8',
+    contrast: '#111827'
+  },
+  dark: {
+    raster: {
+      'raster-brightness-min': 0,
+      'raster-brightness-max': 0.3,
+      'raster-contrast': 0.3,
+      'raster-saturation': -0.5,
+    },
+    background: '#1e293b',
+    countyOutline: '#64748b',
+    townOutline: '#475569',
+    contrast: '#f8fafc'
+  }
+};
+
+// 切換主題時只更新底圖圖層的顏色，不重建樣式，已加入的通知圖層不受影響
+export function applyMapTheme(map: MaplibreMap, theme: MapTheme) {
+  const colors = MAP_THEME_COLORS[theme];
+  if (map.getLayer('osm-tiles')) {
+    Object.entries(colors.raster).forEach(([property, value]) => {
+      map.setPaintProperty('osm-tiles', property, value);
+    });
+  }
+  if (map.getLayer('background')) {
+    map.setPaintProperty('background', 'background-color', colors.background);
+  }
+  map.setPaintProperty('county-outline', 'line-color', colors.countyOutline);
+  map.setPaintProperty('town-outline', 'line-color', colors.townOutline);
+}
+
+export function createMapStyle(boundarySource: MapBoundarySource, theme: MapTheme = 'dark'): StyleSpecification {
+  const colors = MAP_THEME_COLORS[theme];
+  const boundaries = getBoundaryLayers(boundarySource);
+  const sources: Record<string, SourceSpecification> = {};
+  const layers: LayerSpecification[] = [];
+
+  if (MAP_RASTER_TILES_URL) {
+    sources['osm-tiles'] = {
+      type: 'raster',
+      tiles: [MAP_RASTER_TILES_URL],
+      tileSize: 256,
+      attribution: '© OpenStreetMap contributors',
+    };
+    layers.push({
+      id: 'osm-tiles',
+      type: 'raster',
+      source: 'osm-tiles',
+      paint: colors.raster,
+    });
+  } else {
+    layers.push({
+      id: 'background',
+      type: 'background',
+      paint: { 'background-color': colors.background },
+    });
+  }
+
+  if (boundarySource === 'local') {
+    sources.towns = { type: 'geojson', data: `${LOCAL_BOUNDARIES_URL}/town` };
+    sources.counties = { type: 'geojson', data: `${LOCAL_BOUNDARIES_URL}/county` };
+  } else {
+    sources.map = { type: 'vector', url: MAP_VECTOR_TILES_URL };
+  }
+
+  layers.push(
+    {
+      id: 'county-outline',
+      type: 'line',
+      ...boundaries.county,
+      paint: {
+        'line-color': colors.countyOutline,
+        'line-width': 1.5,
+        'line-opacity': 0.8
+      },
+    },
+    {
+      id: 'town-outline',
+      type: 'line',
+      ...boundaries.town,
+      paint: {
+        'line-color': colors.townOutline,
+        'line-width': 0.8,
+        'line-opacity': 0.6
+      },
+    }
+  );
+
+  return { version: 8, sources, layers };
+}
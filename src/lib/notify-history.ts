@@ -0,0 +1,191 @@
+import { NotifyHistoryPage, NotifyHistoryResponse, RawNotificationRecord } from '@/types/notify';
+
+// 上游 API 位址，可透過環境變數指向本地 stub 以便測試
+const NOTIFY_API_BASE_URL = (process.env.NOTIFY_API_BASE_URL || 'https://api.exptech.dev').replace(/\/+$/, '');
+
+// 快取新鮮時間與過期後仍可回傳的時間（秒）
+const CACHE_TTL = Number(process.env.NOTIFY_CACHE_TTL ?? 30) * 1000;
+const CACHE_SWR = Number(process.env.NOTIFY_CACHE_SWR ?? 300) * 1000;
+
+const UPSTREAM_TIMEOUT = 10000;
+
+export type NotifyCacheStatus = 'HIT' | 'STALE' | 'MISS' | 'FALLBACK';
+
+export interface NotifyHistoryResult {
+  data: NotifyHistoryResponse;
+  cacheStatus: NotifyCacheStatus;
+  fetchedAt: number;
+}
+
+export interface NotifyHistoryQuery {
+  limit: string;
+  before?: number;
+  after?: number;
+}
+
+export interface NotifyHistoryPageResult {
+  data: NotifyHistoryPage;
+  cacheStatus: NotifyCacheStatus;
+  fetchedAt: number;
+}
+
+interface CacheEntry {
+  data: NotifyHistoryResponse;
+  fetchedAt: number;
+}
+
+// 以 limit 為鍵的記憶體快取
+const historyCache = new Map<string, CacheEntry>();
+// 進行中的請求，避免同時對上游發出重複請求
+const pendingRequests = new Map<string, Promise<CacheEntry>>();
+
+// 檢查上游回應是否符合 NotifyHistoryResponse 結構
+// 個別紀錄的修復與正規化交由 notificationNormalizer 在資料匯入時處理
+export function isNotifyHistoryResponse(data: unknown): data is NotifyHistoryResponse {
+  if (!data || typeof data !== 'object') return false;
+
+  const response = data as Record<string, unknown>;
+  if (typeof response.success !== 'boolean') return false;
+  if (typeof response.count !== 'number') return false;
+  if (!Array.isArray(response.records)) return false;
+
+  return response.records.every(record => record !== null && typeof record === 'object');
+}
+
+async function fetchUpstream(limit: string): Promise<CacheEntry> {
+  const pending = pendingRequests.get(limit);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT);
+
+    try {
+      const response = await fetch(`${NOTIFY_API_BASE_URL}/api/v2/notify/history?limit=${encodeURIComponent(limit)}`, {
+        signal: controller.signal,
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Upstream HTTP error! status: ${response.status}`);
+      }
+
+      const data: unknown = await response.json();
+
+      if (!isNotifyHistoryResponse(data)) {
+        throw new Error('Upstream returned an invalid payload');
+      }
+      if (!data.success) {
+        throw new Error('Upstream returned success: false');
+      }
+
+      const entry: CacheEntry = { data, fetchedAt: Date.now() };
+      historyCache.set(limit, entry);
+      return entry;
+    } finally {
+      clearTimeout(timer);
+      pendingRequests.delete(limit);
+    }
+  })();
+
+  pendingRequests.set(limit, request);
+  return request;
+}
+
+// 取得通知歷史：新鮮快取直接回傳，過期但在 SWR 範圍內則回傳舊資料並於背景更新，上游失敗時退回任何可用的快取
+export async function getNotifyHistory(limit: string): Promise<NotifyHistoryResult> {
+  const cached = historyCache.get(limit);
+  const now = Date.now();
+
+  if (cached) {
+    const age = now - cached.fetchedAt;
+
+    if (age < CACHE_TTL) {
+      return { data: cached.data, cacheStatus: 'HIT', fetchedAt: cached.fetchedAt };
+    }
+
+    if (age < CACHE_TTL + CACHE_SWR) {
+      fetchUpstream(limit).catch(err => {
+        console.error('背景更新通知歷史失敗:', err);
+      });
+      return { data: cached.data, cacheStatus: 'STALE', fetchedAt: cached.fetchedAt };
+    }
+  }
+
+  try {
+    const entry = await fetchUpstream(limit);
+    return { data: entry.data, cacheStatus: 'MISS', fetchedAt: entry.fetchedAt };
+  } catch (err) {
+    if (cached) {
+      console.error('上游請求失敗，改用快取資料:', err);
+      return { data: cached.data, cacheStatus: 'FALLBACK', fetchedAt: cached.fetchedAt };
+    }
+    throw err;
+  }
+}
+
+const sortByTimestampDesc = (records: RawNotificationRecord[]) =>
+  [...records].sort((a, b) => b.timestamp - a.timestamp);
+
+// 從已排序的通知取出一頁，同一毫秒發送的通知不可被分頁切開，否則以 timestamp 為游標會漏掉資料
+function slicePage(sorted: RawNotificationRecord[], pageSize: number) {
+  let end = Math.min(pageSize, sorted.length);
+  while (end > 0 && end < sorted.length && sorted[end].timestamp === sorted[end - 1].timestamp) {
+    end++;
+  }
+
+  const records = sorted.slice(0, end);
+  const nextCursor = end < sorted.length ? records[records.length - 1].timestamp : null;
+  return { records, nextCursor };
+}
+
+async function getFullHistoryPage(
+  pageSize: number,
+  filter: (record: RawNotificationRecord) => boolean
+): Promise<NotifyHistoryPageResult> {
+  const { data, cacheStatus, fetchedAt } = await getNotifyHistory('all');
+  const { records, nextCursor } = slicePage(sortByTimestampDesc(data.records).filter(filter), pageSize);
+
+  return {
+    data: { success: true, count: records.length, records, nextCursor },
+    cacheStatus,
+    fetchedAt,
+  };
+}
+
+// 以游標（timestamp-before）分頁取得通知歷史
+// 上游只支援 limit，因此有游標或時間範圍時改為對快取的完整歷史進行切片
+// 每次游標或時間範圍查詢都需要一次完整的上游請求（limit=all），成本由 TTL 快取分攤
+export async function getNotifyHistoryPage({ limit, before, after }: NotifyHistoryQuery): Promise<NotifyHistoryPageResult> {
+  const pageSize = limit === 'all' ? Infinity : parseInt(limit, 10);
+
+  // 第一頁維持原本的 limit 請求，避免為了前 N 筆下載完整歷史
+  if (before === undefined && after === undefined) {
+    const { data, cacheStatus, fetchedAt } = await getNotifyHistory(limit);
+    let records = sortByTimestampDesc(data.records);
+    let nextCursor: number | null = null;
+
+    if (records.length > 0 && records.length >= pageSize) {
+      // 頁尾可能只拿到同一毫秒的部分通知，將其移到下一頁
+      const lastTimestamp = records[records.length - 1].timestamp;
+      records = records.filter(record => record.timestamp !== lastTimestamp);
+
+      // 整頁都是同一毫秒時無法以 timestamp 游標分頁，改由完整歷史切出完整的一頁
+      if (records.length === 0) {
+        return getFullHistoryPage(pageSize, () => true);
+      }
+      nextCursor = records[records.length - 1].timestamp;
+    }
+
+    return {
+      data: { ...data, records, count: records.length, nextCursor },
+      cacheStatus,
+      fetchedAt,
+    };
+  }
+
+  return getFullHistoryPage(pageSize, record =>
+    (before === undefined || record.timestamp < before) &&
+    (after === undefined || record.timestamp >= after)
+  );
+}
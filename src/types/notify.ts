@@ -1,4 +1,18 @@
+// 經過驗證與正規化後的通知紀錄
 export interface NotificationRecord {
+  // 由時間戳記、標題、地區代碼與多邊形產生的穩定識別碼（同一毫秒可能有多則通知，不可只用 timestamp）
+  id: string;
+  timestamp: number;
+  title: string;
+  body: string;
+  codes: number[];
+  Polygons: NotificationGeometry[];
+  critical: boolean;
+  warnings: string[];
+}
+
+// 上游 API 回傳的原始通知紀錄
+export interface RawNotificationRecord {
   timestamp: number;
   title: string;
   body: string;
@@ -15,14 +29,31 @@ export interface Polygon {
 export interface GeoJSONFeature {
   type: 'Feature';
   geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
+    type: 'Polygon' | 'MultiPolygon';
+    coordinates: number[][][] | number[][][][];
   };
   properties?: Record<string, unknown>;
 }
 
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type NotificationGeometry = PolygonGeometry | MultiPolygonGeometry;
+
 export interface NotifyHistoryResponse {
   success: boolean;
   count: number;
-  records: NotificationRecord[];
-}
\ No newline at end of file
+  records: RawNotificationRecord[];
+}
+
+// 分頁查詢結果，nextCursor 為下一頁的 before 參數（沒有更多資料時為 null）
+export interface NotifyHistoryPage extends NotifyHistoryResponse {
+  nextCursor: number | null;
+}
@@ -0,0 +1,25 @@
+import type { NotificationRecord } from '@/types/notify';
+import type { RegionData } from '@/hooks/useRegionData';
+import type { RegionMatchDiagnostics, RegionMatchMode, RegionMatchResult } from '@/utils/regionMatcher';
+
+// 主執行緒送往地區匹配 Worker 的訊息
+export type RegionWorkerRequest =
+  // 設定地區資料與匹配模式；版本或模式變更時 Worker 會重新載入資料並清除快取
+  | { type: 'init'; regionData: RegionData; regionVersion: string; mode: RegionMatchMode }
+  // 計算一批多邊形通知的地區匹配
+  | { type: 'match'; jobId: number; notifications: NotificationRecord[] }
+  // 取消尚未完成的工作
+  | { type: 'cancel'; jobId: number }
+  // 取得單一通知的匹配診斷資訊（網格抽樣點與備用方案）
+  | { type: 'diagnose'; jobId: number; notification: NotificationRecord };
+
+// 地區匹配 Worker 回傳主執行緒的訊息
+export type RegionWorkerResponse =
+  // 網格載入完成
+  | { type: 'ready'; regionVersion: string; gridSize: number; fromCache: boolean }
+  // 一批計算結果與目前進度（第 completed / total 個多邊形通知）
+  | { type: 'progress'; jobId: number; completed: number; total: number; matches: Array<[string, RegionMatchResult]> }
+  | { type: 'done'; jobId: number; duration: number }
+  | { type: 'diagnostics'; jobId: number; diagnostics: RegionMatchDiagnostics }
+  // jobId 為 null 表示網格或鄉鎮界線載入失敗
+  | { type: 'error'; jobId: number | null; message: string };
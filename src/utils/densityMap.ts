@@ -0,0 +1,145 @@
+import type { PropertyValueSpecification } from 'maplibre-gl';
+import { createMatchExpression } from '@/utils/mapExpression';
+import { NotificationRecord } from '@/types/notify';
+import { getGeometryRings } from '@/utils/notificationNormalizer';
+import {
+  getMatchedRegionCodes,
+  getPolygonCenter,
+  matchNotificationToRegions,
+  RegionMatchOptions,
+  RegionMatchResult
+} from '@/utils/regionMatcher';
+
+type RegionDataRecord = Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>;
+
+// 色階，值同時用於 URL 參數
+export type DensityPalette = 'heat' | 'blues' | 'viridis';
+
+// 分級方式：linear 等距、log 對數（少數鄉鎮特別多時較能區分低數量）
+export type DensityScale = 'linear' | 'log';
+
+export const DENSITY_PALETTES: Record<DensityPalette, { label: string; colors: string[] }> = {
+  heat: { label: '暖色', colors: ['#fef3c7', '#fcd34d', '#f97316', '#dc2626', '#7f1d1d'] },
+  blues: { label: '藍色', colors: ['#dbeafe', '#93c5fd', '#3b82f6', '#1d4ed8', '#1e3a8a'] },
+  viridis: { label: 'Viridis', colors: ['#fde725', '#5ec962', '#21918c', '#3b528b', '#440154'] }
+};
+
+export const DENSITY_SCALE_LABELS: Record<DensityScale, string> = {
+  linear: '等距',
+  log: '對數'
+};
+
+export interface DensityMapOptions {
+  enabled: boolean;
+  palette: DensityPalette;
+  scale: DensityScale;
+  heatmap: boolean; // 另外顯示多邊形中心點的熱區圖
+}
+
+export const DEFAULT_DENSITY_MAP_OPTIONS: DensityMapOptions = {
+  enabled: false,
+  palette: 'heat',
+  scale: 'linear',
+  heatmap: false
+};
+
+// 圖例中的一個級距（min、max 皆包含）
+export interface DensityClass {
+  min: number;
+  max: number;
+  color: string;
+}
+
+// 傳給地圖的彙總資料
+export interface DensityMapData {
+  counts: Map<number, number>; // 鄉鎮代碼 → 通知數
+  names: Map<number, string>; // 鄉鎮代碼 → 縣市鄉鎮名稱
+  classes: DensityClass[];
+  centroids: GeoJSON.FeatureCollection<GeoJSON.Point> | null; // 僅開啟熱區圖時計算
+  palette: DensityPalette;
+}
+
+// 統計各鄉鎮收到的通知數，多邊形通知依目前的地區篩選語意計入涵蓋的鄉鎮
+export function countNotificationsByTown(
+  notifications: NotificationRecord[],
+  regionData: RegionDataRecord,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions
+): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const notification of notifications) {
+    const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
+    for (const code of getMatchedRegionCodes(matchResult, options)) {
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+export function getTownNames(regionData: RegionDataRecord): Map<number, string> {
+  const names = new Map<number, string>();
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const [district, data] of Object.entries(districts)) {
+      names.set(data.code, `${city}${district}`);
+    }
+  }
+  return names;
+}
+
+// 依最大值切出最多 5 個整數級距
+export function getDensityClasses(max: number, scale: DensityScale, palette: DensityPalette): DensityClass[] {
+  const colors = DENSITY_PALETTES[palette].colors;
+  if (max <= 0) return [];
+
+  const classCount = Math.min(colors.length, max);
+  const upperBounds: number[] = [];
+  for (let i = 1; i <= classCount; i++) {
+    // 浮點誤差可能讓最後一級超過最大值
+    const bound = Math.min(max, scale === 'log'
+      ? Math.ceil(Math.exp(Math.log(max + 1) * i / classCount) - 1)
+      : Math.ceil(max * i / classCount));
+    // 對數級距在數值小時可能重複，略過重複的上限
+    if (bound > (upperBounds[upperBounds.length - 1] ?? 0)) {
+      upperBounds.push(bound);
+    }
+  }
+
+  // 級距較少時取色階中較分散的顏色
+  return upperBounds.map((upper, index) => ({
+    min: index === 0 ? 1 : upperBounds[index - 1] + 1,
+    max: upper,
+    color: colors[upperBounds.length === 1
+      ? colors.length - 1
+      : Math.round(index * (colors.length - 1) / (upperBounds.length - 1))]
+  }));
+}
+
+// 建立鄉鎮填色的 match 運算式（同色的鄉鎮合併為一組）
+export function getDensityFillColorExpression(
+  counts: Map<number, number>,
+  classes: DensityClass[]
+): PropertyValueSpecification<string> {
+  const codesByColor = new Map<string, number[]>();
+  for (const [code, count] of counts) {
+    const densityClass = classes.find(c => count >= c.min && count <= c.max);
+    if (!densityClass) continue;
+    const codes = codesByColor.get(densityClass.color) ?? [];
+    codes.push(code);
+    codesByColor.set(densityClass.color, codes);
+  }
+
+  return createMatchExpression('CODE', [...codesByColor].map(([color, codes]) => [codes, color]), 'rgba(0, 0, 0, 0)');
+}
+
+// 多邊形通知的中心點（頂點平均），作為熱區圖的資料點
+export function getNotificationCentroids(notifications: NotificationRecord[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  const features = notifications.flatMap(notification =>
+    notification.Polygons.map((geometry): GeoJSON.Feature<GeoJSON.Point> => ({
+      type: 'Feature',
+      properties: { id: notification.id },
+      geometry: { type: 'Point', coordinates: getPolygonCenter(getGeometryRings(geometry)) }
+    }))
+  );
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,217 @@
+import { NotificationGeometry } from '@/types/notify';
+import { getGeometryPolygons } from '@/utils/notificationNormalizer';
+
+// 網格矩陣的間距（與 grid-matrix.json 生成時一致）
+export const GRID_STEP = 0.05;
+
+// 多邊形外框內的單一網格點（診斷用）
+export interface GridSample {
+  lon: number;
+  lat: number;
+  townCode: number | null; // 該網格點所屬鄉鎮，海上等無鄉鎮的點為 null
+  inside: boolean; // 是否落在多邊形內
+}
+
+// 以整數索引的陣列儲存網格矩陣，查詢不依賴浮點數字串鍵
+export interface GridIndex {
+  // 有鄉鎮代碼的網格點數量
+  readonly size: number;
+  // 最接近該座標的網格點所屬鄉鎮，超出範圍或該點無鄉鎮時為 null
+  townAt(lon: number, lat: number): number | null;
+  // 距離該座標最近、且有鄉鎮代碼的網格點所屬鄉鎮
+  nearest(lon: number, lat: number): number | null;
+  // 落在多邊形內的網格點，依鄉鎮代碼統計點數
+  townsInPolygon(geometry: NotificationGeometry): Map<number, number>;
+  // 多邊形外框內的所有網格點與是否命中，用於在地圖上顯示抽樣結果
+  samplePolygon(geometry: NotificationGeometry): GridSample[];
+}
+
+// 射線法判斷點是否在環內
+function isPointInRing(x: number, y: number, ring: number[][]): boolean {
+  let inside = false;
+  let j = ring.length - 1;
+
+  for (let i = 0; i < ring.length; i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
+      inside = !inside;
+    }
+    j = i;
+  }
+
+  return inside;
+}
+
+// 點在外環內且不在任何內環（洞）內
+function isPointInPolygonRings(x: number, y: number, rings: number[][][]): boolean {
+  if (rings.length === 0 || !isPointInRing(x, y, rings[0])) return false;
+  for (let i = 1; i < rings.length; i++) {
+    if (isPointInRing(x, y, rings[i])) return false;
+  }
+  return true;
+}
+
+// 點是否落在多邊形或多重多邊形的任一部分內
+export function isPointInGeometry(lon: number, lat: number, geometry: NotificationGeometry): boolean {
+  return getGeometryPolygons(geometry).some(rings => isPointInPolygonRings(lon, lat, rings));
+}
+
+// 由網格矩陣（鍵為 "lon.toFixed(3),lat.toFixed(3)"）建立索引
+export function createGridIndex(matrix: Map<string, number>, step: number = GRID_STEP): GridIndex {
+  const points: Array<[number, number, number]> = [];
+  let originLon = Infinity, originLat = Infinity;
+  let maxLon = -Infinity, maxLat = -Infinity;
+
+  for (const [key, townCode] of matrix.entries()) {
+    const [lon, lat] = key.split(',').map(Number);
+    if (!isFinite(lon) || !isFinite(lat) || !townCode) continue;
+
+    points.push([lon, lat, townCode]);
+    originLon = Math.min(originLon, lon);
+    originLat = Math.min(originLat, lat);
+    maxLon = Math.max(maxLon, lon);
+    maxLat = Math.max(maxLat, lat);
+  }
+
+  const cols = points.length > 0 ? Math.round((maxLon - originLon) / step) + 1 : 0;
+  const rows = points.length > 0 ? Math.round((maxLat - originLat) / step) + 1 : 0;
+
+  // 0 表示該網格點沒有鄉鎮
+  const cells = new Int32Array(cols * rows);
+  for (const [lon, lat, townCode] of points) {
+    const col = Math.round((lon - originLon) / step);
+    const row = Math.round((lat - originLat) / step);
+    cells[row * cols + col] = townCode;
+  }
+
+  const cellAt = (col: number, row: number): number => {
+    if (col < 0 || col >= cols || row < 0 || row >= rows) return 0;
+    return cells[row * cols + col];
+  };
+
+  const townAt = (lon: number, lat: number): number | null => {
+    const code = cellAt(Math.round((lon - originLon) / step), Math.round((lat - originLat) / step));
+    return code || null;
+  };
+
+  // 由最接近的網格點向外逐圈搜尋，確定外圈不可能更近時停止
+  const nearest = (lon: number, lat: number): number | null => {
+    if (points.length === 0) return null;
+
+    const col = (lon - originLon) / step;
+    const row = (lat - originLat) / step;
+    const centerCol = Math.min(Math.max(Math.round(col), 0), cols - 1);
+    const centerRow = Math.min(Math.max(Math.round(row), 0), rows - 1);
+    const offset = Math.max(Math.abs(col - centerCol), Math.abs(row - centerRow));
+    const maxRadius = Math.max(cols, rows);
+
+    let bestCode: number | null = null;
+    let bestDistance = Infinity;
+
+    const visit = (c: number, r: number) => {
+      const code = cellAt(c, r);
+      if (!code) return;
+      const distance = Math.hypot(c - col, r - row);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestCode = code;
+      }
+    };
+
+    for (let radius = 0; radius <= maxRadius; radius++) {
+      if (radius - offset > bestDistance) break;
+
+      for (let dc = -radius; dc <= radius; dc++) {
+        visit(centerCol + dc, centerRow - radius);
+        if (radius > 0) visit(centerCol + dc, centerRow + radius);
+      }
+      for (let dr = -radius + 1; dr <= radius - 1; dr++) {
+        visit(centerCol - radius, centerRow + dr);
+        visit(centerCol + radius, centerRow + dr);
+      }
+    }
+
+    return bestCode;
+  };
+
+  // 外環邊界內的網格列與欄範圍
+  const getCellRange = (outerRing: number[][]) => {
+    let minLon = Infinity, maxLonBound = -Infinity;
+    let minLat = Infinity, maxLatBound = -Infinity;
+    for (const [lon, lat] of outerRing) {
+      minLon = Math.min(minLon, lon);
+      maxLonBound = Math.max(maxLonBound, lon);
+      minLat = Math.min(minLat, lat);
+      maxLatBound = Math.max(maxLatBound, lat);
+    }
+
+    return {
+      startCol: Math.max(Math.ceil((minLon - originLon) / step), 0),
+      endCol: Math.min(Math.floor((maxLonBound - originLon) / step), cols - 1),
+      startRow: Math.max(Math.ceil((minLat - originLat) / step), 0),
+      endRow: Math.min(Math.floor((maxLatBound - originLat) / step), rows - 1)
+    };
+  };
+
+  // 只檢查多邊形邊界內的整數網格點
+  const townsInPolygon = (geometry: NotificationGeometry): Map<number, number> => {
+    const townCounts = new Map<number, number>();
+
+    for (const rings of getGeometryPolygons(geometry)) {
+      if (rings.length === 0) continue;
+
+      const { startCol, endCol, startRow, endRow } = getCellRange(rings[0]);
+
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          const townCode = cells[row * cols + col];
+          if (!townCode) continue;
+
+          const lon = originLon + col * step;
+          const lat = originLat + row * step;
+          if (isPointInPolygonRings(lon, lat, rings)) {
+            townCounts.set(townCode, (townCounts.get(townCode) || 0) + 1);
+          }
+        }
+      }
+    }
+
+    return townCounts;
+  };
+
+  // 與 townsInPolygon 相同的抽樣範圍，但保留每個網格點（含未命中與無鄉鎮的點）
+  const samplePolygon = (geometry: NotificationGeometry): GridSample[] => {
+    const samples: GridSample[] = [];
+
+    for (const rings of getGeometryPolygons(geometry)) {
+      if (rings.length === 0) continue;
+
+      const { startCol, endCol, startRow, endRow } = getCellRange(rings[0]);
+
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          const lon = originLon + col * step;
+          const lat = originLat + row * step;
+          samples.push({
+            lon,
+            lat,
+            townCode: cells[row * cols + col] || null,
+            inside: isPointInPolygonRings(lon, lat, rings)
+          });
+        }
+      }
+    }
+
+    return samples;
+  };
+
+  return {
+    size: points.length,
+    townAt,
+    nearest,
+    townsInPolygon,
+    samplePolygon
+  };
+}
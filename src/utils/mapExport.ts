@@ -0,0 +1,393 @@
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import { bbox } from '@turf/turf';
+import type { FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { NotificationGeometry, NotificationRecord } from '@/types/notify';
+import { MAP_THEME_COLORS, MapTheme } from '@/lib/map-style';
+import { getGeometryPolygons } from '@/utils/notificationNormalizer';
+import { NOTIFICATION_CATEGORY_STYLES } from '@/utils/notificationCategory';
+import { NOTIFICATION_SEVERITY_LABELS, NotificationColors } from '@/utils/notificationPalette';
+import type { TownInfo } from '@/utils/regionMatcher';
+import { getTownCodesBounds, TownBounds, unionBounds } from '@/utils/townBounds';
+
+// 匯出格式：png 為地圖畫面截圖，svg 為由 GeoJSON 繪製的向量圖
+export type MapExportFormat = 'png' | 'svg';
+
+export const MAP_EXPORT_FORMATS: MapExportFormat[] = ['png', 'svg'];
+
+export const MAP_EXPORT_FORMAT_LABELS: Record<MapExportFormat, string> = {
+  png: 'PNG 圖片',
+  svg: 'SVG 向量圖'
+};
+
+export function isMapExportFormat(value: string): value is MapExportFormat {
+  return (MAP_EXPORT_FORMATS as string[]).includes(value);
+}
+
+// 輸出解析度（相對於畫面 CSS 像素的倍率）
+export const MAP_EXPORT_SCALES = [1, 2, 3];
+export const MAX_MAP_EXPORT_SCALE = 4;
+
+// 未指定大小時（例如透過 API 匯出）的地圖區域大小
+export const DEFAULT_MAP_EXPORT_SIZE = { width: 1200, height: 800 };
+
+export const MAP_EXPORT_FONT_FAMILY =
+  "'Noto Sans TC', 'Noto Sans CJK TC', 'PingFang TC', 'Microsoft JhengHei', sans-serif";
+
+// 資料來源標示；PNG 含點陣底圖，SVG 的界線來自 taiwan-atlas
+export function getMapExportAttribution(basemap: 'raster' | 'boundaries'): string {
+  const source = basemap === 'raster' ? '底圖 © OpenStreetMap contributors' : '行政區界 taiwan-atlas';
+  return `通知資料 ExpTech DPIP · ${source}`;
+}
+
+export interface MapExportCaption {
+  title: string;
+  body: string;
+  time: string;
+  // 類型與嚴重程度
+  category: string;
+  towns: string[];
+  attribution: string;
+}
+
+// 固定以台灣時間顯示，伺服器與瀏覽器的輸出一致
+export function formatMapExportTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', hour12: false });
+}
+
+// 影響鄉鎮的名稱（依代碼去除重複，找不到的代碼略過）
+export function getMapExportTownNames(codes: number[], directory: Map<number, TownInfo>): string[] {
+  return [...new Set(codes)].flatMap(code => {
+    const town = directory.get(code);
+    return town ? [town.name] : [];
+  });
+}
+
+export function createMapExportCaption(
+  notification: NotificationRecord,
+  colors: NotificationColors,
+  towns: string[],
+  attribution: string
+): MapExportCaption {
+  return {
+    title: notification.title,
+    body: notification.body,
+    time: formatMapExportTime(notification.timestamp),
+    category: `${NOTIFICATION_CATEGORY_STYLES[colors.category].label} · ${NOTIFICATION_SEVERITY_LABELS[colors.severity]}`,
+    towns,
+    attribution
+  };
+}
+
+export function getMapExportFilename(notification: NotificationRecord, format: MapExportFormat): string {
+  return `dpip-${notification.id}.${format}`;
+}
+
+// 說明區塊的顏色，跟隨地圖主題
+export const MAP_EXPORT_THEME_COLORS: Record<MapTheme, { background: string; text: string; muted: string; land: string }> = {
+  light: { background: '#ffffff', text: '#111827', muted: '#6b7280', land: '#ffffff' },
+  dark: { background: '#0f172a', text: '#f8fafc', muted: '#94a3b8', land: '#334155' }
+};
+
+type CaptionTextStyle = 'title' | 'body' | 'meta';
+
+const CAPTION_TEXT_STYLES: Record<CaptionTextStyle, { size: number; weight: number; lineHeight: number }> = {
+  title: { size: 20, weight: 700, lineHeight: 28 },
+  body: { size: 14, weight: 400, lineHeight: 21 },
+  meta: { size: 12, weight: 400, lineHeight: 18 }
+};
+
+const CAPTION_PADDING = 20;
+const CAPTION_SECTION_GAP = 8;
+// 影響鄉鎮過多時只列出前幾個
+const CAPTION_MAX_TOWNS = 40;
+
+export interface CaptionLine {
+  text: string;
+  muted: boolean;
+  x: number;
+  y: number; // 基線位置
+  size: number;
+  weight: number;
+}
+
+export interface CaptionLayout {
+  lines: CaptionLine[];
+  height: number;
+}
+
+// 量測文字寬度；瀏覽器使用 canvas 量測，伺服器端以估計值代替
+export type MeasureText = (text: string, size: number, weight: number) => number;
+
+// 全形字約為一個字寬，其餘約半個字寬
+export const estimateTextWidth: MeasureText = (text, size) =>
+  [...text].reduce((width, char) => width + (char.codePointAt(0)! >= 0x2e80 ? size : size * 0.56), 0);
+
+// 逐字換行（中文沒有空白可斷行），保留原文的換行
+function wrapText(text: string, maxWidth: number, size: number, weight: number, measure: MeasureText): string[] {
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const char of paragraph) {
+      if (line && measure(line + char, size, weight) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+    lines.push(line);
+    return lines;
+  });
+}
+
+// 說明區塊的版面：標題、時間與類型、內文、影響鄉鎮、資料來源
+export function layoutCaption(
+  caption: MapExportCaption,
+  width: number,
+  measure: MeasureText = estimateTextWidth,
+  scale = 1
+): CaptionLayout {
+  const padding = CAPTION_PADDING * scale;
+  const maxWidth = width - padding * 2;
+  const lines: CaptionLine[] = [];
+  let top = padding;
+
+  const addText = (content: string, style: CaptionTextStyle, muted = false) => {
+    const size = CAPTION_TEXT_STYLES[style].size * scale;
+    const weight = CAPTION_TEXT_STYLES[style].weight;
+    const lineHeight = CAPTION_TEXT_STYLES[style].lineHeight * scale;
+    for (const text of wrapText(content, maxWidth, size, weight, measure)) {
+      lines.push({ text, muted, x: padding, y: top + lineHeight / 2 + size * 0.35, size, weight });
+      top += lineHeight;
+    }
+  };
+
+  addText(caption.title, 'title');
+  addText(`${caption.time} · ${caption.category}`, 'meta', true);
+  top += CAPTION_SECTION_GAP * scale;
+  if (caption.body.trim()) {
+    addText(caption.body.trim(), 'body');
+    top += CAPTION_SECTION_GAP * scale;
+  }
+  if (caption.towns.length > 0) {
+    const listed = caption.towns.slice(0, CAPTION_MAX_TOWNS).join('、');
+    const rest = caption.towns.length > CAPTION_MAX_TOWNS ? ` 等 ${caption.towns.length} 個` : '';
+    addText(`影響鄉鎮（${caption.towns.length}）：${listed}${rest}`, 'meta');
+  }
+  addText(caption.attribution, 'meta', true);
+
+  return { lines, height: top + padding };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 麥卡托投影，與地圖畫面一致
+function mercatorY(lat: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+}
+
+// 與地圖聚焦相同的縮放上限（zoom 12），避免小範圍被放得過大
+const MAX_SCALE = (256 * 2 ** 12) / (2 * Math.PI);
+
+// 台灣本島與離島的範圍，通知沒有範圍時使用
+const TAIWAN_BOUNDS: TownBounds = [119.3, 21.8, 122.1, 25.4];
+
+function createProjection(bounds: TownBounds, width: number, height: number, padding: number) {
+  const [west, south, east, north] = bounds;
+  const minX = (west * Math.PI) / 180;
+  const maxX = (east * Math.PI) / 180;
+  const minY = mercatorY(south);
+  const maxY = mercatorY(north);
+  const k = Math.min(
+    (width - padding * 2) / Math.max(maxX - minX, 1e-9),
+    (height - padding * 2) / Math.max(maxY - minY, 1e-9),
+    MAX_SCALE
+  );
+  const offsetX = (width - (maxX - minX) * k) / 2 - minX * k;
+  const offsetY = (height - (maxY - minY) * k) / 2 + maxY * k;
+  return ([lon, lat]: number[]): [number, number] => [((lon * Math.PI) / 180) * k + offsetX, offsetY - mercatorY(lat) * k];
+}
+
+type Projection = ReturnType<typeof createProjection>;
+
+// 轉為 SVG 路徑，省略與前一點距離不到半像素的頂點
+function geometryToPath(geometry: NotificationGeometry, project: Projection): string {
+  return getGeometryPolygons(geometry).map(polygon => polygon.map(ring => {
+    const points: string[] = [];
+    let last: [number, number] | null = null;
+    for (const position of ring) {
+      const point = project(position);
+      if (last && Math.abs(point[0] - last[0]) < 0.5 && Math.abs(point[1] - last[1]) < 0.5) continue;
+      points.push(`${point[0].toFixed(1)} ${point[1].toFixed(1)}`);
+      last = point;
+    }
+    return points.length > 2 ? `M${points.join('L')}Z` : '';
+  }).join('')).join('');
+}
+
+// 只繪製與畫面範圍重疊的區域
+function featuresToPath(
+  collection: FeatureCollection<Polygon | MultiPolygon>,
+  project: Projection,
+  width: number,
+  height: number,
+  include: (properties: GeoJSON.GeoJsonProperties) => boolean = () => true
+): string {
+  return collection.features
+    .filter(feature => {
+      if (!include(feature.properties)) return false;
+      const [west, south, east, north] = bbox(feature);
+      const [left, bottom] = project([west, south]);
+      const [right, top] = project([east, north]);
+      return right >= 0 && left <= width && bottom >= 0 && top <= height;
+    })
+    .map(feature => geometryToPath(feature.geometry, project))
+    .join('');
+}
+
+// 通知的範圍：鄉鎮代碼的外框與多邊形合併
+export function getNotificationExportBounds(notification: NotificationRecord): TownBounds {
+  return unionBounds([
+    ...notification.Polygons.map(geometry => bbox(geometry) as TownBounds),
+    ...[getTownCodesBounds(notification.codes)].filter((bounds): bounds is TownBounds => bounds !== null)
+  ]) ?? TAIWAN_BOUNDS;
+}
+
+export interface MapExportSvgOptions {
+  notification: NotificationRecord;
+  colors: NotificationColors;
+  lineWidth: number;
+  theme: MapTheme;
+  towns: FeatureCollection<Polygon | MultiPolygon, { CODE: number }>;
+  counties: FeatureCollection<Polygon | MultiPolygon>;
+  caption: MapExportCaption;
+  // 地圖區域大小，說明區塊接在下方
+  width: number;
+  height: number;
+  scale?: number;
+}
+
+// 由 GeoJSON 繪製通知範圍、發送鄉鎮與行政區界，不含點陣底圖
+export function createMapExportSvg({
+  notification,
+  colors,
+  lineWidth,
+  theme,
+  towns,
+  counties,
+  caption,
+  width,
+  height,
+  scale = 1
+}: MapExportSvgOptions): string {
+  const mapColors = MAP_THEME_COLORS[theme];
+  const exportColors = MAP_EXPORT_THEME_COLORS[theme];
+  const project = createProjection(getNotificationExportBounds(notification), width, height, width < 768 ? 30 : 60);
+  const codes = new Set(notification.codes);
+
+  const townPath = featuresToPath(towns, project, width, height);
+  const countyPath = featuresToPath(counties, project, width, height);
+  const codesPath = codes.size > 0
+    ? featuresToPath(towns, project, width, height, properties => codes.has(properties?.CODE))
+    : '';
+  const polygonPath = notification.Polygons.map(geometry => geometryToPath(geometry, project)).join('');
+
+  const layout = layoutCaption(caption, width);
+  const totalHeight = height + layout.height;
+
+  const text = layout.lines.map(line =>
+    `<text x="${line.x}" y="${(height + line.y).toFixed(1)}" font-size="${line.size}" font-weight="${line.weight}" ` +
+    `fill="${line.muted ? exportColors.muted : exportColors.text}">${escapeXml(line.text)}</text>`
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${totalHeight * scale}" viewBox="0 0 ${width} ${totalHeight}" font-family="${escapeXml(MAP_EXPORT_FONT_FAMILY)}">`,
+    `<title>${escapeXml(caption.title)}</title>`,
+    `<defs><clipPath id="map-area"><rect width="${width}" height="${height}"/></clipPath></defs>`,
+    `<rect width="${width}" height="${height}" fill="${mapColors.background}"/>`,
+    `<g clip-path="url(#map-area)" stroke-linejoin="round" fill-rule="evenodd">`,
+    `<path d="${townPath}" fill="${exportColors.land}" stroke="${mapColors.townOutline}" stroke-width="0.8" stroke-opacity="0.6"/>`,
+    `<path d="${countyPath}" fill="none" stroke="${mapColors.countyOutline}" stroke-width="1.5" stroke-opacity="0.8"/>`,
+    codesPath && `<path d="${codesPath}" fill="${colors.fill}" fill-opacity="0.5" stroke="${colors.line}" stroke-width="${lineWidth + 0.5}" stroke-opacity="0.8"/>`,
+    polygonPath && `<path d="${polygonPath}" fill="${colors.fill}" fill-opacity="0.3" stroke="${colors.line}" stroke-width="${lineWidth}"/>`,
+    `</g>`,
+    `<rect y="${height}" width="${width}" height="${layout.height}" fill="${exportColors.background}"/>`,
+    ...text,
+    `</svg>`
+  ].filter(Boolean).join('\n');
+}
+
+// 在 render 事件中讀取畫布，不需開啟 preserveDrawingBuffer
+function captureMapCanvas(map: MaplibreMap): Promise<HTMLCanvasElement> {
+  return new Promise(resolve => {
+    map.once('render', () => {
+      const source = map.getCanvas();
+      const copy = document.createElement('canvas');
+      copy.width = source.width;
+      copy.height = source.height;
+      copy.getContext('2d')!.drawImage(source, 0, 0);
+      resolve(copy);
+    });
+    map.triggerRepaint();
+  });
+}
+
+// 以指定倍率重新繪製地圖（等待圖磚載入完成）後截圖，並在下方加上說明區塊
+export async function renderMapExportPng(
+  map: MaplibreMap,
+  caption: MapExportCaption,
+  theme: MapTheme,
+  scale: number
+): Promise<Blob> {
+  const originalPixelRatio = map.getPixelRatio();
+  let mapImage: HTMLCanvasElement;
+  try {
+    map.setPixelRatio(scale);
+    await new Promise<void>(resolve => {
+      map.once('idle', () => resolve());
+      map.triggerRepaint();
+    });
+    mapImage = await captureMapCanvas(map);
+  } finally {
+    map.setPixelRatio(originalPixelRatio);
+  }
+
+  const output = document.createElement('canvas');
+  const context = output.getContext('2d')!;
+  const measure: MeasureText = (text, size, weight) => {
+    context.font = `${weight} ${size}px ${MAP_EXPORT_FONT_FAMILY}`;
+    return context.measureText(text).width;
+  };
+  const layout = layoutCaption(caption, mapImage.width, measure, scale);
+  const colors = MAP_EXPORT_THEME_COLORS[theme];
+
+  output.width = mapImage.width;
+  output.height = mapImage.height + Math.ceil(layout.height);
+  context.drawImage(mapImage, 0, 0);
+  context.fillStyle = colors.background;
+  context.fillRect(0, mapImage.height, output.width, output.height - mapImage.height);
+  layout.lines.forEach(line => {
+    context.font = `${line.weight} ${line.size}px ${MAP_EXPORT_FONT_FAMILY}`;
+    context.fillStyle = line.muted ? colors.muted : colors.text;
+    context.fillText(line.text, line.x, mapImage.height + line.y);
+  });
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(blob => blob ? resolve(blob) : reject(new Error('無法產生 PNG 圖片')), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // 留時間給瀏覽器開始下載
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,16 @@
+import type { ExpressionInputType, ExpressionSpecification } from 'maplibre-gl';
+
+// match 的一組對應：比對值（可為多個值）與輸出
+export type MatchCase<T extends ExpressionInputType> = [ExpressionInputType | ExpressionInputType[], T];
+
+// 依圖徵屬性建立 match 運算式；沒有任何對應時 match 不成立，直接回傳預設值
+export function createMatchExpression<T extends ExpressionInputType>(
+  property: string,
+  cases: MatchCase<T>[],
+  fallback: T
+): ExpressionSpecification | T {
+  const [first, ...rest] = cases;
+  if (!first) return fallback;
+
+  return ['match', ['get', property], first[0], first[1], ...rest.flat(), fallback];
+}
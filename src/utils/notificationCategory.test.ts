@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import rulesFile from '@/config/notification-rules.json';
+import {
+  checkRuleExamples,
+  ClassificationRuleSet,
+  classifyNotification,
+  createClassifier,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  validateClassificationRules
+} from '@/utils/notificationCategory';
+
+// 實際通知標題與預期類型；新增或調整規則時請補上對應的標題
+const SAMPLE_TITLES: Array<[string, NotificationCategory]> = [
+  ['📐 防災資訊(淹水感測)', 'flood-sensor'],
+  ['🌧️ 防災資訊(短時強降雨紀錄)', 'short-heavy-rain'],
+  ['🌧️ 防災資訊(短時極端降雨紀錄)', 'extreme-rain'],
+  ['📊 天氣特報', 'weather-warning'],
+  ['⛈️ 雷雨即時訊息', 'thunderstorm'],
+  ['⛈️ 山區暴雨', 'mountain-rain'],
+  ['🚨 防災資訊(河川水位-警戒)', 'river-alert'],
+  ['⚠️ 防災資訊(河川水位-注意)', 'river-notice'],
+  ['🚙 防災資訊(道路封閉)', 'road-closure'],
+  ['🚨 防災資訊(土石流紅色警戒)', 'debris-flow-red'],
+  ['⚠️ 防災資訊(土石流黃色警戒)', 'debris-flow-yellow'],
+  ['🏫 防災資訊(停班停課)', 'work-school-closure'],
+  ['🔔 地震報告 [小區域有感地震]', 'local-earthquake'],
+  ['🔔 地震報告 [第114001號]', 'earthquake-report'],
+  ['📡 強震監視器', 'strong-motion'],
+  ['📨 震度速報', 'intensity-report'],
+  ['⚠️ 地震速報', 'earthquake-early-warning'],
+  ['🌊 海嘯消息', 'tsunami'],
+  ['📢 系統測試訊息', 'other']
+];
+
+function createRuleSet(rules: unknown[]): unknown {
+  return { ...rulesFile, rules };
+}
+
+describe('classifyNotification', () => {
+  it.each(SAMPLE_TITLES)('將「%s」分類為 %s', (title, category) => {
+    expect(classifyNotification({ title, body: '' })).toBe(category);
+  });
+
+  it('只比對規則指定的欄位', () => {
+    expect(classifyNotification({ title: '📢 系統測試訊息', body: '防災資訊(停班停課)' })).toBe('other');
+  });
+});
+
+describe('createClassifier', () => {
+  const { ruleSet } = validateClassificationRules(createRuleSet([
+    { category: 'tsunami', field: 'body', regex: '海嘯(警報|消息)' },
+    { category: 'thunderstorm', field: 'title', contains: '雷雨' }
+  ]));
+  const classify = createClassifier(ruleSet);
+
+  it('依規則順序由第一個符合的規則決定類型', () => {
+    expect(classify({ title: '雷雨即時訊息', body: '海嘯警報' })).toBe('tsunami');
+    expect(classify({ title: '雷雨即時訊息', body: '' })).toBe('thunderstorm');
+  });
+
+  it('沒有符合的規則時為 other', () => {
+    expect(classify({ title: '天氣特報', body: '' })).toBe('other');
+  });
+});
+
+describe('validateClassificationRules', () => {
+  it('接受目前的規則檔', () => {
+    const { ruleSet, errors } = validateClassificationRules(rulesFile);
+    expect(errors).toEqual([]);
+    expect(ruleSet.rules).toHaveLength(rulesFile.rules.length);
+    expect(Object.keys(ruleSet.categories).sort()).toEqual([...NOTIFICATION_CATEGORIES].sort());
+  });
+
+  it('拒絕不支援的版本', () => {
+    const { errors } = validateClassificationRules({ ...rulesFile, version: 2 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('版本');
+  });
+
+  it('略過有問題的規則並回報原因', () => {
+    const { ruleSet, errors } = validateClassificationRules(createRuleSet([
+      { category: 'unknown', field: 'title', contains: 'a' },
+      { category: 'tsunami', field: 'subject', contains: 'a' },
+      { category: 'tsunami', field: 'title', contains: 'a', regex: 'a' },
+      { category: 'tsunami', field: 'title', regex: 'a', flags: 'g' },
+      { category: 'tsunami', field: 'title', regex: '(' },
+      { category: 'tsunami', field: 'title', contains: '海嘯', examples: '海嘯消息' },
+      { category: 'tsunami', field: 'title', contains: '海嘯' }
+    ]));
+
+    expect(errors).toHaveLength(6);
+    expect(errors.every((error, index) => error.startsWith(`rules[${index}]`))).toBe(true);
+    expect(ruleSet.rules).toEqual([{ category: 'tsunami', field: 'title', contains: '海嘯' }]);
+  });
+
+  it('類型樣式有誤時以預設值補上', () => {
+    const categories: Record<string, unknown> = { ...rulesFile.categories, unknown: {} };
+    categories.tsunami = { label: '海嘯', color: 'blue', severity: 'critical' };
+    delete categories.thunderstorm;
+
+    const { ruleSet, errors } = validateClassificationRules({ ...rulesFile, categories });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('categories.unknown'),
+      expect.stringContaining('categories.tsunami.color'),
+      expect.stringContaining('categories.tsunami.severity'),
+      expect.stringContaining('categories.thunderstorm')
+    ]));
+    expect(ruleSet.categories.tsunami).toEqual({ label: '海嘯', icon: '', color: '#64748b', severity: 'info' });
+    expect(ruleSet.categories.thunderstorm.label).toBe('thunderstorm');
+  });
+});
+
+describe('checkRuleExamples', () => {
+  it('規則檔中的範例都分類為其規則的類型', () => {
+    const { ruleSet } = validateClassificationRules(rulesFile);
+    expect(checkRuleExamples(ruleSet)).toEqual([]);
+  });
+
+  it('回報被前面規則搶先比對的範例', () => {
+    const ruleSet: ClassificationRuleSet = {
+      ...validateClassificationRules(rulesFile).ruleSet,
+      rules: [
+        { category: 'earthquake-report', field: 'title', contains: '地震報告' },
+        { category: 'local-earthquake', field: 'title', contains: '小區域有感地震', examples: ['🔔 地震報告 [小區域有感地震]'] }
+      ]
+    };
+
+    expect(checkRuleExamples(ruleSet)).toEqual([
+      'rules[1]：「🔔 地震報告 [小區域有感地震]」預期為 local-earthquake，實際為 earthquake-report'
+    ]);
+  });
+});
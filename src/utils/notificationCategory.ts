@@ -0,0 +1,317 @@
+import { NotificationRecord } from '@/types/notify';
+import rulesFile from '@/config/notification-rules.json';
+
+// 通知類型（依規則檔分類），值同時用於 URL 參數
+export type NotificationCategory =
+  | 'flood-sensor'
+  | 'short-heavy-rain'
+  | 'weather-warning'
+  | 'thunderstorm'
+  | 'river-alert'
+  | 'road-closure'
+  | 'debris-flow-red'
+  | 'debris-flow-yellow'
+  | 'extreme-rain'
+  | 'river-notice'
+  | 'work-school-closure'
+  | 'local-earthquake'
+  | 'earthquake-report'
+  | 'strong-motion'
+  | 'intensity-report'
+  | 'mountain-rain'
+  | 'earthquake-early-warning'
+  | 'tsunami'
+  | 'other';
+
+// 所有類型（依預設規則順序，「其他」在最後）；新增類型時需同時更新規則檔
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'flood-sensor',
+  'short-heavy-rain',
+  'weather-warning',
+  'thunderstorm',
+  'river-alert',
+  'road-closure',
+  'debris-flow-red',
+  'debris-flow-yellow',
+  'extreme-rain',
+  'river-notice',
+  'work-school-closure',
+  'local-earthquake',
+  'earthquake-report',
+  'strong-motion',
+  'intensity-report',
+  'mountain-rain',
+  'earthquake-early-warning',
+  'tsunami',
+  'other'
+];
+
+export function isNotificationCategory(value: string): value is NotificationCategory {
+  return (NOTIFICATION_CATEGORIES as string[]).includes(value);
+}
+
+// 嚴重程度（由低到高）
+export type NotificationSeverity = 'info' | 'notice' | 'warning' | 'alert';
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'notice', 'warning', 'alert'];
+
+export interface CategoryStyle {
+  label: string;
+  icon: string;
+  color: string; // #rrggbb
+  severity: NotificationSeverity;
+}
+
+export type ClassificationField = 'title' | 'body';
+
+// 規則檔中的單一規則：contains（子字串）與 regex 擇一
+export interface ClassificationRule {
+  category: NotificationCategory;
+  field: ClassificationField;
+  contains?: string;
+  regex?: string;
+  flags?: string;
+  examples?: string[]; // 應被分類為此類型的範例標題（或內文），由驗證腳本檢查
+}
+
+export interface ClassificationRuleSet {
+  version: number;
+  categories: Record<NotificationCategory, CategoryStyle>;
+  rules: ClassificationRule[];
+}
+
+export const CLASSIFICATION_RULES_VERSION = 1;
+
+const DEFAULT_CATEGORY_STYLE: CategoryStyle = {
+  label: '其他',
+  icon: '',
+  color: '#64748b',
+  severity: 'info'
+};
+
+// g、y 旗標會讓 RegExp.test 帶有狀態，不允許使用
+const REGEX_FLAGS_PATTERN = /^[imsu]*$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 驗證規則檔：回傳可使用的規則集（略過有問題的規則、缺少的類型樣式以預設值補上）與錯誤清單
+export function validateClassificationRules(raw: unknown): {
+  ruleSet: ClassificationRuleSet;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const categories = {} as Record<NotificationCategory, CategoryStyle>;
+  const rules: ClassificationRule[] = [];
+
+  if (!isRecord(raw)) {
+    errors.push('規則檔必須是物件');
+    raw = {};
+  }
+  const file = raw as Record<string, unknown>;
+
+  if (file.version !== CLASSIFICATION_RULES_VERSION) {
+    errors.push(`不支援的規則檔版本：${String(file.version)}（目前為 ${CLASSIFICATION_RULES_VERSION}）`);
+  }
+
+  const rawCategories = isRecord(file.categories) ? file.categories : {};
+  if (!isRecord(file.categories)) {
+    errors.push('categories 必須是物件');
+  }
+
+  for (const key of Object.keys(rawCategories)) {
+    if (!isNotificationCategory(key)) {
+      errors.push(`categories.${key}：未知的類型`);
+    }
+  }
+
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const style = rawCategories[category];
+    if (!isRecord(style)) {
+      errors.push(`categories.${category}：缺少類型樣式`);
+      categories[category] = { ...DEFAULT_CATEGORY_STYLE, label: category };
+      continue;
+    }
+
+    const path = `categories.${category}`;
+    const label = typeof style.label === 'string' && style.label.trim() ? style.label : category;
+    if (label !== style.label) errors.push(`${path}.label：必須是非空字串`);
+
+    const icon = typeof style.icon === 'string' ? style.icon : '';
+    if (style.icon !== undefined && typeof style.icon !== 'string') errors.push(`${path}.icon：必須是字串`);
+
+    const color = typeof style.color === 'string' && COLOR_PATTERN.test(style.color)
+      ? style.color
+      : DEFAULT_CATEGORY_STYLE.color;
+    if (color !== style.color) errors.push(`${path}.color：必須是 #rrggbb 格式`);
+
+    const severity = NOTIFICATION_SEVERITIES.find(s => s === style.severity) ?? DEFAULT_CATEGORY_STYLE.severity;
+    if (severity !== style.severity) {
+      errors.push(`${path}.severity：必須是 ${NOTIFICATION_SEVERITIES.join('、')} 之一`);
+    }
+
+    categories[category] = { label, icon, color, severity };
+  }
+
+  if (!Array.isArray(file.rules)) {
+    errors.push('rules 必須是陣列');
+  }
+
+  (Array.isArray(file.rules) ? file.rules : []).forEach((rule: unknown, index) => {
+    const path = `rules[${index}]`;
+    if (!isRecord(rule)) {
+      errors.push(`${path}：必須是物件`);
+      return;
+    }
+
+    const ruleErrors: string[] = [];
+    if (typeof rule.category !== 'string' || !isNotificationCategory(rule.category)) {
+      ruleErrors.push(`${path}.category：未知的類型 ${String(rule.category)}`);
+    }
+    if (rule.field !== 'title' && rule.field !== 'body') {
+      ruleErrors.push(`${path}.field：必須是 title 或 body`);
+    }
+
+    const hasContains = rule.contains !== undefined;
+    const hasRegex = rule.regex !== undefined;
+    if (hasContains === hasRegex) {
+      ruleErrors.push(`${path}：contains 與 regex 必須擇一`);
+    } else if (hasContains && (typeof rule.contains !== 'string' || !rule.contains)) {
+      ruleErrors.push(`${path}.contains：必須是非空字串`);
+    } else if (hasRegex) {
+      const flags = rule.flags ?? '';
+      if (typeof rule.regex !== 'string' || !rule.regex) {
+        ruleErrors.push(`${path}.regex：必須是非空字串`);
+      } else if (typeof flags !== 'string' || !REGEX_FLAGS_PATTERN.test(flags)) {
+        ruleErrors.push(`${path}.flags：只允許 i、m、s、u`);
+      } else {
+        try {
+          new RegExp(rule.regex, flags);
+        } catch (error) {
+          ruleErrors.push(`${path}.regex：無效的正規表示式（${(error as Error).message}）`);
+        }
+      }
+    }
+
+    if (rule.examples !== undefined &&
+        !(Array.isArray(rule.examples) && rule.examples.every(example => typeof example === 'string'))) {
+      ruleErrors.push(`${path}.examples：必須是字串陣列`);
+    }
+
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors);
+      return;
+    }
+
+    rules.push({
+      category: rule.category as NotificationCategory,
+      field: rule.field as ClassificationField,
+      ...(hasContains ? { contains: rule.contains as string } : { regex: rule.regex as string, flags: rule.flags as string | undefined }),
+      ...(rule.examples ? { examples: rule.examples as string[] } : {})
+    });
+  });
+
+  return {
+    ruleSet: { version: CLASSIFICATION_RULES_VERSION, categories, rules },
+    errors
+  };
+}
+
+export type NotificationClassifier = (notification: Pick<NotificationRecord, 'title' | 'body'>) => NotificationCategory;
+
+// 依序比對規則，第一個符合的規則決定類型（較具體的規則需排在前面）
+export function createClassifier(ruleSet: ClassificationRuleSet): NotificationClassifier {
+  const matchers = ruleSet.rules.map(rule => {
+    const pattern = rule.regex !== undefined ? new RegExp(rule.regex, rule.flags) : null;
+    const test = pattern
+      ? (text: string) => pattern.test(text)
+      : (text: string) => text.includes(rule.contains!);
+    return { category: rule.category, field: rule.field, test };
+  });
+
+  return notification => {
+    const matcher = matchers.find(m => m.test(notification[m.field]));
+    return matcher ? matcher.category : 'other';
+  };
+}
+
+// 檢查每條規則的範例是否被整組規則分類為預期類型（可發現被前面規則搶先比對的情況）
+export function checkRuleExamples(ruleSet: ClassificationRuleSet): string[] {
+  const classify = createClassifier(ruleSet);
+  const failures: string[] = [];
+
+  ruleSet.rules.forEach((rule, index) => {
+    for (const example of rule.examples ?? []) {
+      const actual = classify({
+        title: rule.field === 'title' ? example : '',
+        body: rule.field === 'body' ? example : ''
+      });
+      if (actual !== rule.category) {
+        failures.push(`rules[${index}]：「${example}」預期為 ${rule.category}，實際為 ${actual}`);
+      }
+    }
+  });
+
+  return failures;
+}
+
+const loadedRules = validateClassificationRules(rulesFile);
+if (loadedRules.errors.length > 0) {
+  console.error('通知分類規則檔有誤:', loadedRules.errors);
+}
+
+export const NOTIFICATION_CATEGORY_STYLES = loadedRules.ruleSet.categories;
+
+export const NOTIFICATION_CATEGORY_LABELS = Object.fromEntries(
+  NOTIFICATION_CATEGORIES.map(category => {
+    const { icon, label } = NOTIFICATION_CATEGORY_STYLES[category];
+    return [category, icon ? `${icon} ${label}` : label];
+  })
+) as Record<NotificationCategory, string>;
+
+// 依規則檔判斷通知類型
+export const classifyNotification = createClassifier(loadedRules.ruleSet);
+
+// 統計未被任何規則分類的通知標題（依數量排序），用於發現新的通知類型
+export function getUnclassifiedTitles(
+  notifications: Pick<NotificationRecord, 'title' | 'body'>[],
+  classify: NotificationClassifier = classifyNotification
+): Array<{ title: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const notification of notifications) {
+    if (classify(notification) === 'other') {
+      counts.set(notification.title, (counts.get(notification.title) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([title, count]) => ({ title, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// 類型與緊急程度篩選：categories 為空表示不限類型
+export interface CategoryFilter {
+  categories: NotificationCategory[];
+  criticalOnly: boolean;
+}
+
+export const DEFAULT_CATEGORY_FILTER: CategoryFilter = {
+  categories: [],
+  criticalOnly: false
+};
+
+export function filterNotificationsByCategory(
+  notifications: NotificationRecord[],
+  filter: CategoryFilter
+): NotificationRecord[] {
+  if (filter.categories.length === 0 && !filter.criticalOnly) {
+    return notifications;
+  }
+
+  const categories = new Set(filter.categories);
+  return notifications.filter(notification => {
+    if (filter.criticalOnly && !notification.critical) return false;
+    return categories.size === 0 || categories.has(classifyNotification(notification));
+  });
+}
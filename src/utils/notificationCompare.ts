@@ -0,0 +1,169 @@
+import type { PropertyValueSpecification } from 'maplibre-gl';
+import { createMatchExpression } from '@/utils/mapExpression';
+import { area, featureCollection, intersect, union } from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { NotificationGeometry, NotificationRecord } from '@/types/notify';
+
+// 比較模式中各通知的顏色，依加入順序分配
+export const COMPARE_COLORS = [
+  '#2563eb',
+  '#dc2626',
+  '#16a34a',
+  '#d97706',
+  '#9333ea',
+  '#0891b2',
+  '#db2777',
+  '#65a30d'
+];
+
+export const MAX_COMPARE_NOTIFICATIONS = COMPARE_COLORS.length;
+
+export interface CompareItem {
+  notification: NotificationRecord;
+  color: string;
+}
+
+// 比較通知的聯集與交集（面積單位為平方公尺）
+export interface CompareOverlap {
+  union: Feature<Polygon | MultiPolygon> | null;
+  intersection: Feature<Polygon | MultiPolygon> | null;
+  unionArea: number;
+  intersectionArea: number;
+  // 所有以鄉鎮代碼發送的通知都包含的鄉鎮
+  sharedCodes: number[];
+  // 沒有多邊形、不計入面積的通知
+  codeOnlyIds: string[];
+}
+
+// 傳給地圖的比較資料
+export interface NotificationCompareData {
+  items: CompareItem[];
+  overlap: CompareOverlap;
+}
+
+// URL 參數格式：以逗號分隔的通知識別碼
+export function parseCompareParam(param: string | null): string[] {
+  if (!param) return [];
+  const ids = param.split(',').filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARE_NOTIFICATIONS);
+}
+
+export function serializeCompareParam(ids: string[]): string | null {
+  return ids.length > 0 ? ids.join(',') : null;
+}
+
+// 加入或移除單一通知，已達上限時不再加入
+export function toggleCompareId(ids: string[], id: string): string[] {
+  if (ids.includes(id)) return ids.filter(existing => existing !== id);
+  if (ids.length >= MAX_COMPARE_NOTIFICATIONS) return ids;
+  return [...ids, id];
+}
+
+// Shift 點擊：加入列表中 anchorId 到 targetId 之間的所有通知（不超過上限）
+export function addCompareRange(
+  ids: string[],
+  notifications: NotificationRecord[],
+  anchorId: string,
+  targetId: string
+): string[] {
+  const anchorIndex = notifications.findIndex(n => n.id === anchorId);
+  const targetIndex = notifications.findIndex(n => n.id === targetId);
+  if (anchorIndex === -1 || targetIndex === -1) return toggleCompareId(ids, targetId);
+
+  const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+  const result = [...ids];
+  for (const notification of notifications.slice(from, to + 1)) {
+    if (result.length >= MAX_COMPARE_NOTIFICATIONS) break;
+    if (!result.includes(notification.id)) result.push(notification.id);
+  }
+  return result;
+}
+
+// 依選取順序取得比較的通知與顏色，略過已不在列表中的通知
+export function getCompareItems(
+  ids: string[],
+  notifications: NotificationRecord[],
+  colors: string[] = COMPARE_COLORS
+): CompareItem[] {
+  const byId = new Map(notifications.map(n => [n.id, n]));
+  return ids.flatMap((id, index) => {
+    const notification = byId.get(id);
+    return notification ? [{ notification, color: colors[index % colors.length] }] : [];
+  });
+}
+
+function toFeature(geometry: Polygon | MultiPolygon): Feature<Polygon | MultiPolygon> {
+  return { type: 'Feature', properties: {}, geometry };
+}
+
+// 合併同一則通知的多個多邊形
+function mergeGeometries(geometries: NotificationGeometry[]): Feature<Polygon | MultiPolygon> | null {
+  if (geometries.length === 1) return toFeature(geometries[0]);
+  return union(featureCollection(geometries.map(toFeature)));
+}
+
+export function computeCompareOverlap(notifications: NotificationRecord[]): CompareOverlap {
+  const withPolygons = notifications.filter(n => n.Polygons.length > 0);
+  const withCodes = notifications.filter(n => n.codes.length > 0);
+
+  let unionFeature: Feature<Polygon | MultiPolygon> | null = null;
+  let intersectionFeature: Feature<Polygon | MultiPolygon> | null = null;
+
+  try {
+    const merged = withPolygons
+      .map(n => mergeGeometries(n.Polygons))
+      .filter((feature): feature is Feature<Polygon | MultiPolygon> => feature !== null);
+
+    unionFeature = merged.length > 1 ? union(featureCollection(merged)) : merged[0] ?? null;
+
+    // 交集需要至少兩則多邊形通知，任一步為空即無交集
+    if (merged.length > 1) {
+      intersectionFeature = merged[0];
+      for (const feature of merged.slice(1)) {
+        intersectionFeature = intersect(featureCollection([intersectionFeature, feature]));
+        if (!intersectionFeature) break;
+      }
+    }
+  } catch (err) {
+    // 自相交等無效幾何無法計算聯集或交集
+    console.warn('無法計算比較通知的聯集與交集:', err);
+  }
+
+  const sharedCodes = withCodes.length > 1
+    ? withCodes[0].codes.filter(code => withCodes.every(n => n.codes.includes(code)))
+    : [];
+
+  return {
+    union: unionFeature,
+    intersection: intersectionFeature,
+    unionArea: unionFeature ? area(unionFeature) : 0,
+    intersectionArea: intersectionFeature ? area(intersectionFeature) : 0,
+    sharedCodes,
+    codeOnlyIds: notifications.filter(n => n.Polygons.length === 0).map(n => n.id)
+  };
+}
+
+// 各通知的多邊形，以顏色屬性區分
+export function getComparePolygons(items: CompareItem[]): GeoJSON.FeatureCollection {
+  const features = items.flatMap(({ notification, color }) =>
+    notification.Polygons.map((geometry): GeoJSON.Feature => ({
+      type: 'Feature',
+      properties: { id: notification.id, title: notification.title, color },
+      geometry
+    }))
+  );
+
+  return { type: 'FeatureCollection', features };
+}
+
+// 鄉鎮代碼通知的填色，同一鄉鎮屬於多則通知時使用較早加入的顏色
+export function getCompareCodeColorExpression(items: CompareItem[]): PropertyValueSpecification<string> {
+  const colorByCode = new Map<number, string>();
+  for (const { notification, color } of items) {
+    notification.codes.forEach(code => {
+      if (!colorByCode.has(code)) colorByCode.set(code, color);
+    });
+  }
+
+  return createMatchExpression('CODE', [...colorByCode], 'rgba(0, 0, 0, 0)');
+}
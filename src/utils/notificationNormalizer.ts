@@ -0,0 +1,265 @@
+import { NotificationGeometry, NotificationRecord } from '@/types/notify';
+import { hashString } from '@/lib/hash';
+
+export interface NormalizeResult {
+  record: NotificationRecord | null;
+  warnings: string[];
+}
+
+export interface NormalizeBatchResult {
+  records: NotificationRecord[];
+  rejected: { raw: unknown; warnings: string[] }[];
+}
+
+// 檢查是否為有效的座標點
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) &&
+         value.length >= 2 &&
+         typeof value[0] === 'number' && isFinite(value[0]) &&
+         typeof value[1] === 'number' && isFinite(value[1]);
+}
+
+// 計算座標陣列的巢狀深度（點 = 1、環 = 2、多邊形 = 3、多重多邊形 = 4）
+function getCoordinateDepth(value: unknown): number {
+  let depth = 0;
+  let current = value;
+  while (Array.isArray(current)) {
+    depth++;
+    current = current[0];
+  }
+  return depth;
+}
+
+// 修復單一環：移除無效點、修正經緯度顛倒、補上封閉點
+function normalizeRing(ring: unknown, warnings: string[]): number[][] | null {
+  if (!Array.isArray(ring)) return null;
+
+  const positions: number[][] = [];
+  let invalidCount = 0;
+  let swappedCount = 0;
+
+  for (const position of ring) {
+    if (!isPosition(position)) {
+      invalidCount++;
+      continue;
+    }
+
+    let [lon, lat] = position;
+    // 緯度不可能超過 ±90，若第一個值在範圍內而第二個值超出，視為經緯度顛倒
+    if (Math.abs(lon) <= 90 && Math.abs(lat) > 90) {
+      [lon, lat] = [lat, lon];
+      swappedCount++;
+    }
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      invalidCount++;
+      continue;
+    }
+    positions.push([lon, lat]);
+  }
+
+  if (invalidCount > 0) {
+    warnings.push(`移除 ${invalidCount} 個無效座標點`);
+  }
+  if (swappedCount > 0) {
+    warnings.push(`修正 ${swappedCount} 個經緯度顛倒的座標點`);
+  }
+
+  if (positions.length === 0) return null;
+
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    positions.push([first[0], first[1]]);
+    warnings.push('多邊形環未封閉，已自動補上封閉點');
+  }
+
+  // 封閉環至少需要 4 個點
+  if (positions.length < 4) {
+    warnings.push('多邊形環的座標點不足，已忽略');
+    return null;
+  }
+
+  return positions;
+}
+
+function normalizePolygonCoordinates(coordinates: unknown[], warnings: string[]): number[][][] | null {
+  const rings: number[][][] = [];
+  coordinates.forEach(ring => {
+    const normalized = normalizeRing(ring, warnings);
+    if (normalized) rings.push(normalized);
+  });
+  return rings.length > 0 ? rings : null;
+}
+
+// 將各種多邊形格式（裸 Polygon、GeoJSON Feature、MultiPolygon）轉為標準 GeoJSON 幾何
+export function normalizeGeometry(raw: unknown, warnings: string[]): NotificationGeometry | null {
+  if (!raw || typeof raw !== 'object') {
+    warnings.push('多邊形格式無效，已忽略');
+    return null;
+  }
+
+  let source = raw as { type?: unknown; coordinates?: unknown; geometry?: unknown };
+  if (source.type === 'Feature') {
+    if (!source.geometry || typeof source.geometry !== 'object') {
+      warnings.push('GeoJSON Feature 缺少 geometry，已忽略');
+      return null;
+    }
+    source = source.geometry as typeof source;
+  }
+
+  if (!Array.isArray(source.coordinates)) {
+    warnings.push('多邊形缺少座標，已忽略');
+    return null;
+  }
+
+  // 以實際巢狀深度判斷類型，不完全信任 type 欄位
+  const depth = getCoordinateDepth(source.coordinates);
+
+  if (depth === 3) {
+    const polygon = normalizePolygonCoordinates(source.coordinates, warnings);
+    return polygon ? { type: 'Polygon', coordinates: polygon } : null;
+  }
+
+  if (depth === 4) {
+    const polygons: number[][][][] = [];
+    (source.coordinates as unknown[]).forEach(part => {
+      if (!Array.isArray(part)) return;
+      const polygon = normalizePolygonCoordinates(part, warnings);
+      if (polygon) polygons.push(polygon);
+    });
+    if (polygons.length === 0) return null;
+    return polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  // 只有單一環（缺少外層陣列）
+  if (depth === 2) {
+    warnings.push('多邊形座標缺少外層陣列，已自動修正');
+    const polygon = normalizePolygonCoordinates([source.coordinates], warnings);
+    return polygon ? { type: 'Polygon', coordinates: polygon } : null;
+  }
+
+  warnings.push('多邊形座標結構無法辨識，已忽略');
+  return null;
+}
+
+// 取得幾何中所有多邊形的座標（Polygon 視為只有一個多邊形的 MultiPolygon）
+export function getGeometryPolygons(geometry: NotificationGeometry): number[][][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+// 取得幾何中所有的環
+export function getGeometryRings(geometry: NotificationGeometry): number[][][] {
+  return getGeometryPolygons(geometry).flat();
+}
+
+// 產生通知的穩定識別碼：時間戳記加上內容雜湊，格式為 "<timestamp>-<hash>"
+export function getNotificationId(
+  record: Pick<NotificationRecord, 'timestamp' | 'title' | 'codes' | 'Polygons'>
+): string {
+  const content = JSON.stringify([record.title, record.codes, record.Polygons]);
+  return `${record.timestamp}-${hashString(content)}`;
+}
+
+// 驗證並正規化單筆通知紀錄，無法修復時回傳 null
+export function normalizeNotificationRecord(raw: unknown): NormalizeResult {
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { record: null, warnings: ['通知紀錄格式無效'] };
+  }
+
+  const source = raw as Record<string, unknown>;
+
+  const timestamp = typeof source.timestamp === 'string' ? Number(source.timestamp) : source.timestamp;
+  if (typeof timestamp !== 'number' || !isFinite(timestamp) || timestamp <= 0) {
+    return { record: null, warnings: ['通知紀錄缺少有效的時間戳記'] };
+  }
+
+  let body = typeof source.body === 'string' ? source.body : '';
+  if (typeof source.body !== 'string') {
+    warnings.push('缺少內文');
+  }
+
+  let title = typeof source.title === 'string' ? source.title.trim() : '';
+  if (!title) {
+    // 以內文第一行作為標題
+    title = body.split('\n').find(line => line.trim())?.trim() ?? '';
+    if (!title) {
+      return { record: null, warnings: [...warnings, '通知紀錄缺少標題與內文'] };
+    }
+    warnings.push('缺少標題，已使用內文第一行代替');
+  }
+
+  const codes: number[] = [];
+  if (Array.isArray(source.codes)) {
+    const invalidCodes: string[] = [];
+    source.codes.forEach(code => {
+      const value = typeof code === 'string' && code.trim() !== '' ? Number(code) : code;
+      if (typeof value === 'number' && Number.isInteger(value)) {
+        if (!codes.includes(value)) codes.push(value);
+      } else {
+        invalidCodes.push(String(code));
+      }
+    });
+    if (invalidCodes.length > 0) {
+      warnings.push(`忽略非數字的地區代碼：${invalidCodes.join(', ')}`);
+    }
+  } else if (source.codes !== undefined) {
+    warnings.push('地區代碼格式無效，已忽略');
+  }
+
+  const Polygons: NotificationGeometry[] = [];
+  if (Array.isArray(source.Polygons)) {
+    source.Polygons.forEach(polygon => {
+      const geometry = normalizeGeometry(polygon, warnings);
+      if (geometry) Polygons.push(geometry);
+    });
+  } else if (source.Polygons !== undefined) {
+    warnings.push('多邊形格式無效，已忽略');
+  }
+
+  if (typeof source.critical !== 'boolean' && source.critical !== undefined) {
+    warnings.push('critical 欄位不是布林值，已自動轉換');
+  }
+
+  body = body.replace(/\r\n/g, '\n');
+
+  const uniqueWarnings = Array.from(new Set(warnings));
+
+  return {
+    record: {
+      id: getNotificationId({ timestamp, title, codes, Polygons }),
+      timestamp,
+      title,
+      body,
+      codes,
+      Polygons,
+      critical: source.critical === true || source.critical === 'true' || source.critical === 1,
+      warnings: uniqueWarnings
+    },
+    warnings: uniqueWarnings
+  };
+}
+
+// 批次正規化，回傳可用的紀錄與被拒絕的原始資料
+export function normalizeNotificationRecords(rawRecords: unknown[]): NormalizeBatchResult {
+  const records: NotificationRecord[] = [];
+  const rejected: NormalizeBatchResult['rejected'] = [];
+
+  rawRecords.forEach(raw => {
+    const { record, warnings } = normalizeNotificationRecord(raw);
+    if (record) {
+      records.push(record);
+    } else {
+      rejected.push({ raw, warnings });
+    }
+  });
+
+  if (rejected.length > 0) {
+    console.warn(`⚠️ 已略過 ${rejected.length} 筆無法修復的通知紀錄`, rejected);
+  }
+
+  return { records, rejected };
+}
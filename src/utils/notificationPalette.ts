@@ -0,0 +1,149 @@
+import type { PropertyValueSpecification } from 'maplibre-gl';
+import { createMatchExpression } from '@/utils/mapExpression';
+import { NotificationRecord } from '@/types/notify';
+import { COMPARE_COLORS } from '@/utils/notificationCompare';
+import {
+  classifyNotification,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_STYLES,
+  NOTIFICATION_SEVERITIES,
+  NotificationCategory,
+  NotificationSeverity
+} from '@/utils/notificationCategory';
+
+// 配色方案：standard 使用規則檔的類型顏色，accessible 為色盲友善的高對比配色
+export type ColorPalette = 'standard' | 'accessible';
+
+export const COLOR_PALETTES: ColorPalette[] = ['standard', 'accessible'];
+
+export const COLOR_PALETTE_LABELS: Record<ColorPalette, string> = {
+  standard: '標準配色',
+  accessible: '色盲友善配色'
+};
+
+export function isColorPalette(value: string): value is ColorPalette {
+  return (COLOR_PALETTES as string[]).includes(value);
+}
+
+export const NOTIFICATION_SEVERITY_LABELS: Record<NotificationSeverity, string> = {
+  info: '資訊',
+  notice: '注意',
+  warning: '警戒',
+  alert: '緊急'
+};
+
+export interface PaletteColors {
+  severity: Record<NotificationSeverity, string>;
+  category: Record<NotificationCategory, string>;
+  // 比較模式依加入順序分配的顏色
+  compare: string[];
+  // 範圍外框寬度，高對比配色較粗
+  lineWidth: number;
+}
+
+const STANDARD_SEVERITY_COLORS: Record<NotificationSeverity, string> = {
+  info: '#3b82f6',
+  notice: '#eab308',
+  warning: '#f97316',
+  alert: '#ef4444'
+};
+
+// Okabe-Ito 色組：各種色覺類型都能區分，嚴重程度由冷色到暖色、由亮到暗排列
+const ACCESSIBLE_SEVERITY_COLORS: Record<NotificationSeverity, string> = {
+  info: '#56b4e9',
+  notice: '#0072b2',
+  warning: '#e69f00',
+  alert: '#d55e00'
+};
+
+const ACCESSIBLE_COMPARE_COLORS = [
+  '#0072b2',
+  '#d55e00',
+  '#009e73',
+  '#e69f00',
+  '#cc79a7',
+  '#56b4e9',
+  '#f0e442',
+  '#999999'
+];
+
+// 類型數量遠多於可區分的顏色，色盲友善配色下類型改以嚴重程度著色，類型以名稱與圖示區分
+export const PALETTE_COLORS: Record<ColorPalette, PaletteColors> = {
+  standard: {
+    severity: STANDARD_SEVERITY_COLORS,
+    category: Object.fromEntries(
+      NOTIFICATION_CATEGORIES.map(category => [category, NOTIFICATION_CATEGORY_STYLES[category].color])
+    ) as Record<NotificationCategory, string>,
+    compare: COMPARE_COLORS,
+    lineWidth: 2
+  },
+  accessible: {
+    severity: ACCESSIBLE_SEVERITY_COLORS,
+    category: Object.fromEntries(
+      NOTIFICATION_CATEGORIES.map(category => [
+        category,
+        ACCESSIBLE_SEVERITY_COLORS[NOTIFICATION_CATEGORY_STYLES[category].severity]
+      ])
+    ) as Record<NotificationCategory, string>,
+    compare: ACCESSIBLE_COMPARE_COLORS,
+    lineWidth: 3
+  }
+};
+
+// 通知的嚴重程度：緊急通知一律為最高等級，其餘依類型設定
+export function getNotificationSeverity(
+  notification: Pick<NotificationRecord, 'title' | 'body' | 'critical'>,
+  category: NotificationCategory = classifyNotification(notification)
+): NotificationSeverity {
+  return notification.critical ? 'alert' : NOTIFICATION_CATEGORY_STYLES[category].severity;
+}
+
+export function compareSeverity(a: NotificationSeverity, b: NotificationSeverity): number {
+  return NOTIFICATION_SEVERITIES.indexOf(a) - NOTIFICATION_SEVERITIES.indexOf(b);
+}
+
+export interface NotificationColors {
+  category: NotificationCategory;
+  severity: NotificationSeverity;
+  // 範圍填色依類型、外框依嚴重程度
+  fill: string;
+  line: string;
+}
+
+export function getNotificationColors(
+  notification: Pick<NotificationRecord, 'title' | 'body' | 'critical'>,
+  palette: ColorPalette
+): NotificationColors {
+  const colors = PALETTE_COLORS[palette];
+  const category = classifyNotification(notification);
+  const severity = getNotificationSeverity(notification, category);
+  return {
+    category,
+    severity,
+    fill: colors.category[category],
+    line: colors.severity[severity]
+  };
+}
+
+// 依圖徵的 severity 屬性著色
+export function getSeverityColorExpression(palette: ColorPalette): PropertyValueSpecification<string> {
+  const colors = PALETTE_COLORS[palette].severity;
+  return createMatchExpression(
+    'severity',
+    NOTIFICATION_SEVERITIES.map(severity => [severity, colors[severity]]),
+    colors.info
+  );
+}
+
+// 依鄉鎮代碼對應的嚴重程度著色
+export function getCodeSeverityColorExpression(
+  codeSeverity: Map<number, NotificationSeverity>,
+  palette: ColorPalette
+): PropertyValueSpecification<string> {
+  const colors = PALETTE_COLORS[palette].severity;
+  return createMatchExpression(
+    'CODE',
+    [...codeSeverity].map(([code, severity]) => [code, colors[severity]]),
+    colors.info
+  );
+}
@@ -1,11 +1,17 @@
-import { NotificationRecord } from '@/types/notify';
+import { distance } from '@turf/turf';
+import { NotificationGeometry, NotificationRecord } from '@/types/notify';
+import { getGeometryRings } from '@/utils/notificationNormalizer';
+import { GridIndex, GridSample, isPointInGeometry } from '@/utils/gridIndex';
+import { TownBoundaryIndex, TownIntersection } from '@/utils/townBoundaries';
 
 // 快取多邊形到鄉鎮的對應關係
 const polygonToTownsCache = new Map<string, Map<number, number>>();
 
-// 預計算所有通知的地區匹配結果
-const precomputedRegionMatches = new Map<number, RegionMatchResult>();
-let isPrecomputationComplete = false;
+// 快取多邊形與鄉鎮界線的交集（精確模式）
+const townIntersectionCache = new Map<string, TownIntersection>();
+
+// 地區匹配模式：grid 以網格點抽樣，exact 以實際鄉鎮界線計算交集
+export type RegionMatchMode = 'grid' | 'exact';
 
 // 取得多邊形邊界
 function getPolygonBounds(coordinates: number[][][]) {
@@ -24,30 +30,6 @@ function getPolygonBounds(coordinates: number[][][]) {
   return { minLon, maxLon, minLat, maxLat };
 }
 
-// 檢查點是否在多邊形內
-function isPointInPolygon(point: [number, number], polygon: number[][][]): boolean {
-  const [x, y] = point;
-  
-  for (const ring of polygon) {
-    let inside = false;
-    let j = ring.length - 1;
-    
-    for (let i = 0; i < ring.length; i++) {
-      const [xi, yi] = ring[i];
-      const [xj, yj] = ring[j];
-      
-      if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-        inside = !inside;
-      }
-      j = i;
-    }
-    
-    if (inside) return true;
-  }
-  
-  return false;
-}
-
 // 生成多邊形的唯一標識符
 function getPolygonHash(polygonCoords: number[][][]): string {
   // 使用多邊形的邊界和中心點來生成雜湊
@@ -56,48 +38,46 @@ function getPolygonHash(polygonCoords: number[][][]): string {
   return `${bounds.minLon.toFixed(3)},${bounds.minLat.toFixed(3)},${bounds.maxLon.toFixed(3)},${bounds.maxLat.toFixed(3)},${center[0].toFixed(3)},${center[1].toFixed(3)}`;
 }
 
-// 使用網格矩陣將多邊形分配到鄉鎮（帶快取）
+// 使用網格索引將多邊形分配到鄉鎮（帶快取）
 function assignPolygonToTownsByGrid(
-  polygonCoords: number[][][], 
-  gridMatrix: Map<string, number>
+  geometry: NotificationGeometry,
+  gridIndex: GridIndex
 ): Map<number, number> {
   // 生成多邊形的唯一標識符
-  const polygonHash = getPolygonHash(polygonCoords);
+  const polygonHash = getPolygonHash(getGeometryRings(geometry));
   
   // 檢查快取
   if (polygonToTownsCache.has(polygonHash)) {
     return polygonToTownsCache.get(polygonHash)!;
   }
   
-  const townCounts = new Map<number, number>();
+  const townCounts = gridIndex.townsInPolygon(geometry);
   
-  // 取得polygon的邊界
-  const bounds = getPolygonBounds(polygonCoords);
-  const gridStep = 0.05; // 與生成時保持一致
+  // 快取結果
+  polygonToTownsCache.set(polygonHash, townCounts);
   
-  // 優化：減少網格點檢查的粒度以提高性能
-  const optimizedGridStep = Math.max(gridStep * 2, (bounds.maxLon - bounds.minLon) / 25); // 進一步減少網格密度
+  return townCounts;
+}
+
+// 使用鄉鎮界線計算多邊形與各鄉鎮的交集（帶快取）
+function intersectPolygonWithTowns(
+  geometry: NotificationGeometry,
+  townBoundaries: TownBoundaryIndex
+): TownIntersection {
+  const polygonHash = getPolygonHash(getGeometryRings(geometry));
   
-  // 檢查polygon邊界內的網格點
-  for (let lon = bounds.minLon; lon <= bounds.maxLon; lon += optimizedGridStep) {
-    for (let lat = bounds.minLat; lat <= bounds.maxLat; lat += optimizedGridStep) {
-      const key = `${lon.toFixed(3)},${lat.toFixed(3)}`;
-      const townCode = gridMatrix.get(key);
-      
-      if (townCode && isPointInPolygon([lon, lat], polygonCoords)) {
-        townCounts.set(townCode, (townCounts.get(townCode) || 0) + 1);
-      }
-    }
+  if (townIntersectionCache.has(polygonHash)) {
+    return townIntersectionCache.get(polygonHash)!;
   }
   
-  // 快取結果
-  polygonToTownsCache.set(polygonHash, townCounts);
+  const intersection = townBoundaries.intersect(geometry);
+  townIntersectionCache.set(polygonHash, intersection);
   
-  return townCounts;
+  return intersection;
 }
 
-// 取得多邊形中心點
-function getPolygonCenter(coordinates: number[][][]): [number, number] {
+// 取得多邊形中心點（頂點平均）
+export function getPolygonCenter(coordinates: number[][][]): [number, number] {
   let totalLon = 0;
   let totalLat = 0;
   let count = 0;
@@ -113,170 +93,217 @@ function getPolygonCenter(coordinates: number[][][]): [number, number] {
   return [totalLon / count, totalLat / count];
 }
 
-// 找最近的網格點
-function findNearestGridPoint(
-  point: [number, number], 
-  gridMatrix: Map<string, number>
-): number | null {
-  let minDistance = Infinity;
-  let nearestTownCode: number | null = null;
-  
-  for (const [key, townCode] of gridMatrix.entries()) {
-    const [lonStr, latStr] = key.split(',');
-    const lon = parseFloat(lonStr);
-    const lat = parseFloat(latStr);
-    
-    const distance = Math.sqrt(
-      Math.pow(lon - point[0], 2) + 
-      Math.pow(lat - point[1], 2)
-    );
-    
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestTownCode = townCode;
-    }
-  }
-  
-  return nearestTownCode;
-}
+// 通知符合某地區的原因
+export type RegionMatchReason = 'code' | 'polygon' | 'title';
 
-// 從標題提取通知類型
-function extractNotificationType(title: string): string {
-  if (title.includes('地震')) return '地震';
-  if (title.includes('海嘯')) return '海嘯';
-  if (title.includes('火山')) return '火山';
-  if (title.includes('颱風')) return '颱風';
-  if (title.includes('豪雨') || title.includes('淹水')) return '天氣';
-  if (title.includes('核子')) return '核子事故';
-  if (title.includes('空襲')) return '空襲';
-  if (title.includes('飛彈')) return '飛彈';
-  if (title.includes('測試')) return '測試';
-  if (title.includes('演習')) return '演習';
-  return '其他';
+// 單一鄉鎮的匹配明細
+export interface TownMatch {
+  code: number;
+  name: string;
+  reason: 'code' | 'polygon'; // 直接指定代碼或由多邊形涵蓋
+  samples: number; // 落在多邊形內的網格點數（網格模式）
+  area: number; // 與多邊形的重疊面積，平方公尺（精確模式）
+  share: number; // 佔多邊形的比例（%），直接指定代碼時為 100
+  primary: boolean; // 是否為多邊形的主要鄉鎮（網格點最多或重疊面積最大）
 }
 
 export interface RegionMatchResult {
-  matchedRegions: Set<number>; // 匹配到的地區代碼
+  matchedRegions: Set<number>; // 匹配到的地區代碼（包含所有涵蓋的鄉鎮）
+  towns: TownMatch[]; // 各鄉鎮的匹配明細（依比例排序）
   isNationwide: boolean; // 是否為全國廣播
   isUnknownArea: boolean; // 是否為未知區域
   isOtherArea: boolean; // 是否為其他地區
 }
 
-// 簡化的預計算 - 只預計算複雜的多邊形通知
-export function precomputeAllRegionMatches(
-  notifications: NotificationRecord[],
+// 地區篩選語意：primary 只計主要鄉鎮，any 計入所有涵蓋的鄉鎮，threshold 計入比例達門檻的鄉鎮
+export type RegionMatchSemantics = 'primary' | 'any' | 'threshold';
+
+export interface RegionMatchOptions {
+  semantics: RegionMatchSemantics;
+  threshold: number; // 百分比，僅 threshold 語意使用
+}
+
+export const DEFAULT_REGION_MATCH_OPTIONS: RegionMatchOptions = {
+  semantics: 'primary',
+  threshold: 20
+};
+
+// 多邊形對應到鄉鎮的方式：exact 鄉鎮界線交集、grid 網格抽樣、nearest 以中心點找最近網格點（備用方案）、none 無法對應
+export type PolygonMatchMethod = 'exact' | 'grid' | 'nearest' | 'none';
+
+export interface PolygonMatchDiagnostics {
+  method: PolygonMatchMethod;
+  towns: TownMatch[]; // 此多邊形對應的鄉鎮
+  samples: GridSample[]; // 多邊形外框內的網格點（含未命中的點）
+  center: [number, number] | null; // 使用備用方案時查詢最近網格點的中心點
+}
+
+// 單一通知的地區匹配診斷資訊
+export interface RegionMatchDiagnostics {
+  id: string;
+  mode: RegionMatchMode;
+  polygons: PolygonMatchDiagnostics[];
+  result: RegionMatchResult;
+}
+
+// 由地區代碼取得「縣市+鄉鎮」名稱
+function getRegionName(
   regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
-  gridMatrix: Map<string, number>
-): Promise<void> {
-  return new Promise((resolve) => {
-    console.log('🔄 開始簡化預計算...');
-    const startTime = performance.now();
-    
-    precomputedRegionMatches.clear();
-    
-    // 只預計算有多邊形的複雜通知（約5-10%的通知）
-    const polygonNotifications = notifications.filter(n => n.Polygons.length > 0);
-    console.log(`📊 需要預計算的多邊形通知: ${polygonNotifications.length}/${notifications.length}`);
-    
-    // 同步處理，因為數量已經大幅減少
-    polygonNotifications.forEach(notification => {
-      const result = computeNotificationRegions(notification, regionData, gridMatrix);
-      precomputedRegionMatches.set(notification.timestamp, result);
-    });
-    
-    isPrecomputationComplete = true;
-    const endTime = performance.now();
-    console.log(`✅ 簡化預計算完成！耗時 ${(endTime - startTime).toFixed(2)}ms`);
-    resolve();
+  code: number
+): string | null {
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const [district, data] of Object.entries(districts)) {
+      if (data.code === code) {
+        return `${city}${district}`;
+      }
+    }
+  }
+  return null;
+}
+
+// 依篩選語意取得通知涵蓋的地區代碼（直接指定的代碼一律計入）
+export function getMatchedRegionCodes(
+  result: RegionMatchResult,
+  options: RegionMatchOptions = DEFAULT_REGION_MATCH_OPTIONS
+): Set<number> {
+  const codes = new Set<number>();
+  result.towns.forEach(town => {
+    if (
+      town.reason === 'code' ||
+      options.semantics === 'any' ||
+      (options.semantics === 'primary' && town.primary) ||
+      (options.semantics === 'threshold' && town.share >= options.threshold)
+    ) {
+      codes.add(town.code);
+    }
   });
+  return codes;
 }
 
-// 內部計算函數（不使用快取）
-function computeNotificationRegions(
+// 將單一多邊形對應到鄉鎮 - 精確模式以鄉鎮界線計算交集，否則（或沒有任何交集時）使用網格索引
+function matchPolygon(
+  geometry: NotificationGeometry,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
+  gridIndex: GridIndex,
+  townBoundaries: TownBoundaryIndex | null
+): { method: PolygonMatchMethod; towns: TownMatch[]; center: [number, number] | null } {
+  if (townBoundaries) {
+    const intersection = intersectPolygonWithTowns(geometry, townBoundaries);
+    if (intersection.towns.length > 0) {
+      // 依面積排序，第一個為主要鄉鎮
+      const towns = intersection.towns.map((town, index): TownMatch => ({
+        code: town.code,
+        name: town.name,
+        reason: 'polygon',
+        samples: 0,
+        area: town.area,
+        share: town.percentage,
+        primary: index === 0
+      }));
+      return { method: 'exact', towns, center: null };
+    }
+  }
+
+  // MultiPolygon 的各個部分一併視為同一個區域
+  const townCounts = assignPolygonToTownsByGrid(geometry, gridIndex);
+
+  if (townCounts.size > 0) {
+    // 包含最多網格點的鄉鎮為主要鄉鎮
+    let totalCount = 0;
+    let bestTownCode: number | null = null;
+    let maxCount = 0;
+    for (const [townCode, count] of townCounts.entries()) {
+      totalCount += count;
+      if (count > maxCount) {
+        maxCount = count;
+        bestTownCode = townCode;
+      }
+    }
+
+    const towns = [...townCounts.entries()].map(([townCode, count]): TownMatch => ({
+      code: townCode,
+      name: getRegionName(regionData, townCode) ?? String(townCode),
+      reason: 'polygon',
+      samples: count,
+      area: 0,
+      share: (count / totalCount) * 100,
+      primary: townCode === bestTownCode
+    }));
+    return { method: 'grid', towns, center: null };
+  }
+
+  // 備用方案：找最近的網格點
+  const center = getPolygonCenter(getGeometryRings(geometry));
+  const nearestCode = gridIndex.nearest(center[0], center[1]);
+  if (!nearestCode) {
+    return { method: 'none', towns: [], center };
+  }
+
+  return {
+    method: 'nearest',
+    towns: [{
+      code: nearestCode,
+      name: getRegionName(regionData, nearestCode) ?? String(nearestCode),
+      reason: 'polygon',
+      samples: 0,
+      area: 0,
+      share: 100,
+      primary: true
+    }],
+    center
+  };
+}
+
+// 計算單一通知的地區匹配（在 Worker 中執行，多邊形分配結果會快取）
+export function computeNotificationRegions(
   notification: NotificationRecord,
   regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
-  gridMatrix: Map<string, number>
+  gridIndex: GridIndex,
+  townBoundaries: TownBoundaryIndex | null = null
 ): RegionMatchResult {
   const result: RegionMatchResult = {
     matchedRegions: new Set<number>(),
+    towns: [],
     isNationwide: false,
     isUnknownArea: false,
     isOtherArea: false
   };
 
+  // 各鄉鎮的匹配明細（同一鄉鎮被多個多邊形涵蓋時合併）
+  const towns = new Map<number, TownMatch>();
+  const addTown = (town: TownMatch) => {
+    const existing = towns.get(town.code);
+    if (!existing) {
+      towns.set(town.code, town);
+      return;
+    }
+    // 直接指定的代碼優先；多邊形之間累加點數與面積，比例取最大值
+    if (existing.reason === 'code') return;
+    towns.set(town.code, {
+      ...existing,
+      samples: existing.samples + town.samples,
+      area: existing.area + town.area,
+      share: Math.max(existing.share, town.share),
+      primary: existing.primary || town.primary
+    });
+  };
+
   // 1. 處理直接指定的地區代碼
   notification.codes.forEach(code => {
-    // 檢查是否為有效的地區代碼
-    let isValidCode = false;
-    for (const [, districts] of Object.entries(regionData)) {
-      for (const [, data] of Object.entries(districts)) {
-        if (data.code === code) {
-          isValidCode = true;
-          result.matchedRegions.add(code);
-          break;
-        }
-      }
-      if (isValidCode) break;
+    const name = getRegionName(regionData, code);
+    if (name !== null) {
+      addTown({ code, name, reason: 'code', samples: 0, area: 0, share: 100, primary: true });
     }
   });
 
-  // 2. 處理 Polygon 類型 - 使用網格矩陣系統
-  notification.Polygons.forEach((notificationPolygon) => {
-    const notificationCoordinates = 'coordinates' in notificationPolygon 
-      ? notificationPolygon.coordinates 
-      : notificationPolygon.geometry.coordinates;
-        
-    // 使用網格矩陣分配polygon到鄉鎮
-    const townCounts = assignPolygonToTownsByGrid(notificationCoordinates, gridMatrix);
-        
-    if (townCounts.size > 0) {
-      // 找出包含最多網格點的鄉鎮
-      let maxCount = 0;
-      let bestTownCode: number | null = null;
-      let bestTownName = '';
-      
-      for (const [townCode, count] of townCounts.entries()) {
-        if (count > maxCount) {
-          maxCount = count;
-          bestTownCode = townCode;
-          // 找到地區名稱
-          for (const [city, districts] of Object.entries(regionData)) {
-            for (const [district, data] of Object.entries(districts)) {
-              if (data.code === townCode) {
-                bestTownName = `${city}${district}`;
-                break;
-              }
-            }
-            if (bestTownName) break;
-          }
-        }
-      }
-      
-      if (bestTownCode) {
-        result.matchedRegions.add(bestTownCode);
-      }
-    } else {
-      // 備用方案：找最近的網格點
-      const polygonCenter = getPolygonCenter(notificationCoordinates);
-      const nearestCode = findNearestGridPoint(polygonCenter, gridMatrix);
-      if (nearestCode) {
-        result.matchedRegions.add(nearestCode);
-        if (false) { // debug removed
-          let nearestName = '';
-          for (const [city, districts] of Object.entries(regionData)) {
-            for (const [district, data] of Object.entries(districts)) {
-              if (data.code === nearestCode) {
-                nearestName = `${city}${district}`;
-                break;
-              }
-            }
-            if (nearestName) break;
-          }
-        }
-      }
-    }
+  // 2. 處理 Polygon 類型
+  notification.Polygons.forEach((geometry) => {
+    matchPolygon(geometry, regionData, gridIndex, townBoundaries).towns.forEach(addTown);
   });
 
+  result.towns = [...towns.values()].sort((a, b) => b.share - a.share);
+  result.towns.forEach(town => result.matchedRegions.add(town.code));
+
   // 3. 判斷特殊類型
   if (result.matchedRegions.size === 0) {
     // 檢查是否為全國廣播
@@ -313,73 +340,137 @@ function computeNotificationRegions(
   return result;
 }
 
+// 計算地區匹配並保留每個多邊形的對應方式與網格抽樣點，供診斷面板使用
+export function diagnoseNotificationRegions(
+  notification: NotificationRecord,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
+  gridIndex: GridIndex,
+  townBoundaries: TownBoundaryIndex | null = null
+): RegionMatchDiagnostics {
+  const polygons = notification.Polygons.map((geometry): PolygonMatchDiagnostics => ({
+    ...matchPolygon(geometry, regionData, gridIndex, townBoundaries),
+    samples: gridIndex.samplePolygon(geometry)
+  }));
+
+  return {
+    id: notification.id,
+    mode: townBoundaries ? 'exact' : 'grid',
+    polygons,
+    result: computeNotificationRegions(notification, regionData, gridIndex, townBoundaries)
+  };
+}
+
 // 統一的地區匹配邏輯（簡化版）
 export function matchNotificationToRegions(
   notification: NotificationRecord,
   regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
-  gridMatrix: Map<string, number>,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
   debug: boolean = false
 ): RegionMatchResult {
-  // 檢查預計算結果（只有多邊形通知才有預計算）
-  if (precomputedRegionMatches.has(notification.timestamp)) {
-    return precomputedRegionMatches.get(notification.timestamp)!;
+  // 檢查 Worker 預計算的結果（只有多邊形通知才有預計算）
+  const precomputed = regionMatches.get(notification.id);
+  if (precomputed) {
+    return precomputed;
   }
   
   // 快速處理簡單情況
   if (notification.codes.length === 0 && notification.Polygons.length === 0) {
     return {
       matchedRegions: new Set<number>(),
+      towns: [],
       isNationwide: true,
       isUnknownArea: false,
       isOtherArea: false
     };
   }
   
-  if (notification.codes.length > 0 && notification.Polygons.length === 0) {
-    // 只有代碼的簡單情況，快速處理
-    const result: RegionMatchResult = {
-      matchedRegions: new Set<number>(),
-      isNationwide: false,
-      isUnknownArea: false,
-      isOtherArea: false
-    };
-    
-    // 檢查代碼有效性
-    let hasValidCode = false;
-    notification.codes.forEach(code => {
-      for (const [, districts] of Object.entries(regionData)) {
-        for (const [, data] of Object.entries(districts)) {
-          if (data.code === code) {
-            result.matchedRegions.add(code);
-            hasValidCode = true;
-            break;
-          }
-        }
-        if (hasValidCode) break;
-      }
-    });
-    
-    if (!hasValidCode) {
-      result.isNationwide = true;
+  // 只有代碼的簡單情況快速處理；多邊形通知在 Worker 計算完成前先只依代碼判斷
+  const result: RegionMatchResult = {
+    matchedRegions: new Set<number>(),
+    towns: [],
+    isNationwide: false,
+    isUnknownArea: false,
+    isOtherArea: false
+  };
+  
+  // 檢查代碼有效性
+  notification.codes.forEach(code => {
+    const name = getRegionName(regionData, code);
+    if (name !== null && !result.matchedRegions.has(code)) {
+      result.matchedRegions.add(code);
+      result.towns.push({ code, name, reason: 'code', samples: 0, area: 0, share: 100, primary: true });
     }
-    
-    return result;
+  });
+  
+  if (result.matchedRegions.size === 0 && notification.Polygons.length === 0) {
+    result.isNationwide = true;
   }
   
-  // 複雜情況（有多邊形）即時計算
-  return computeNotificationRegions(notification, regionData, gridMatrix);
+  return result;
 }
 
 // 清理快取的函數（可選）
 export function clearRegionMatcherCache() {
   polygonToTownsCache.clear();
-  precomputedRegionMatches.clear();
-  isPrecomputationComplete = false;
+  townIntersectionCache.clear();
 }
 
-// 檢查是否已完成預計算
-export function isRegionMatchesPrecomputed(): boolean {
-  return isPrecomputationComplete;
+// 取得縣市或「縣市+鄉鎮」名稱對應的地區代碼
+function getTargetRegionCodes(
+  targetRegion: string,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>
+): number[] {
+  const targetCodes: number[] = [];
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const [district, data] of Object.entries(districts)) {
+      const fullName = `${city}${district}`;
+      if (fullName === targetRegion || city === targetRegion) {
+        targetCodes.push(data.code);
+      }
+    }
+  }
+  return targetCodes;
+}
+
+function getMatchReasonsForCodes(
+  notification: NotificationRecord,
+  targetRegion: string,
+  targetCodes: number[],
+  matchResult: RegionMatchResult,
+  options: RegionMatchOptions
+): RegionMatchReason[] {
+  const reasons: RegionMatchReason[] = [];
+
+  // 1. 檢查標題是否包含地區名稱
+  if (notification.title.includes(targetRegion)) {
+    reasons.push('title');
+  }
+
+  // 2. 依篩選語意檢查目標地區是否被代碼或多邊形涵蓋
+  const matchedCodes = getMatchedRegionCodes(matchResult, options);
+  const targetTowns = matchResult.towns.filter(town => targetCodes.includes(town.code) && matchedCodes.has(town.code));
+
+  if (targetTowns.some(town => town.reason === 'code')) {
+    reasons.push('code');
+  }
+  if (targetTowns.some(town => town.reason === 'polygon')) {
+    reasons.push('polygon');
+  }
+
+  return reasons;
+}
+
+// 取得通知符合目標地區的原因，不符合時回傳空陣列
+export function getRegionMatchReasons(
+  notification: NotificationRecord,
+  targetRegion: string,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions = DEFAULT_REGION_MATCH_OPTIONS
+): RegionMatchReason[] {
+  const targetCodes = getTargetRegionCodes(targetRegion, regionData);
+  const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
+  return getMatchReasonsForCodes(notification, targetRegion, targetCodes, matchResult, options);
 }
 
 // 根據地區名稱篩選通知（使用預計算結果）
@@ -387,12 +478,13 @@ export function filterNotificationsByRegionName(
   notifications: NotificationRecord[],
   targetRegion: string,
   regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
-  gridMatrix: Map<string, number>
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions = DEFAULT_REGION_MATCH_OPTIONS
 ): NotificationRecord[] {
   
   if (targetRegion === '全部(不指定地區的全部用戶廣播通知)') {
     const result = notifications.filter(notification => {
-      const matchResult = matchNotificationToRegions(notification, regionData, gridMatrix);
+      const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
       return matchResult.isNationwide;
     });
     return result;
@@ -400,7 +492,7 @@ export function filterNotificationsByRegionName(
 
   if (targetRegion === '其他地區') {
     const result = notifications.filter(notification => {
-      const matchResult = matchNotificationToRegions(notification, regionData, gridMatrix);
+      const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
       return matchResult.isOtherArea;
     });
     return result;
@@ -408,64 +500,98 @@ export function filterNotificationsByRegionName(
 
   if (targetRegion === '未知區域廣播通知') {
     const result = notifications.filter(notification => {
-      const matchResult = matchNotificationToRegions(notification, regionData, gridMatrix);
+      const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
       return matchResult.isUnknownArea;
     });
     return result;
   }
 
-  const targetCodes: number[] = [];
-  for (const [city, districts] of Object.entries(regionData)) {
-    for (const [district, data] of Object.entries(districts)) {
-      const fullName = `${city}${district}`;
-      if (fullName === targetRegion || city === targetRegion) {
-        targetCodes.push(data.code);
-      }
-    }
-  }
+  const targetCodes = getTargetRegionCodes(targetRegion, regionData);
 
   if (targetCodes.length === 0) {
     return [];
   }
 
   // 篩選符合的通知（使用預計算結果，性能極佳）
-  const matchedNotifications: NotificationRecord[] = [];
-  
-  notifications.forEach((notification) => {
-    let matched = false;
-    let matchedByTitle = false;
-    let matchedByCode = false;
-    let matchedByPolygon = false;
-    
-    // 1. 檢查標題是否包含地區名稱
-    if (notification.title.includes(targetRegion)) {
-      matchedByTitle = true;
+  return notifications.filter(notification => {
+    const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
+    return getMatchReasonsForCodes(notification, targetRegion, targetCodes, matchResult, options).length > 0;
+  });
+}
+
+// 鄉鎮代碼對應的名稱與所屬的預警分區（region.json 的 area）
+export interface TownInfo {
+  code: number;
+  name: string;
+  area: string;
+}
+
+export function getTownDirectory(
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>
+): Map<number, TownInfo> {
+  const directory = new Map<number, TownInfo>();
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const [district, data] of Object.entries(districts)) {
+      directory.set(data.code, { code: data.code, name: `${city}${district}`, area: data.area });
     }
+  }
+  return directory;
+}
 
-    // 2. 使用預計算的匹配結果（如果可用）
-    const matchResult = matchNotificationToRegions(notification, regionData, gridMatrix);
-    
-    // 檢查是否有任何目標地區代碼被匹配到
-    for (const targetCode of targetCodes) {
-      if (matchResult.matchedRegions.has(targetCode)) {
-        if (notification.codes.includes(targetCode)) {
-          matchedByCode = true;
-        } else {
-          matchedByPolygon = true;
-        }
-        break;
+// 查詢點所在的鄉鎮（以 region.json 中最近的鄉鎮中心點判斷），distance 單位為公里
+export interface PointTown {
+  code: number;
+  name: string;
+  distance: number;
+}
+
+// 通知涵蓋查詢點的原因：polygon 點在多邊形內、code 所在鄉鎮為通知指定的代碼、nationwide 全國廣播
+export type PointMatchReason = 'polygon' | 'code' | 'nationwide';
+
+export interface PointMatch {
+  notification: NotificationRecord;
+  reason: PointMatchReason;
+  polygonIndex: number | null; // 包含查詢點的多邊形索引（僅 polygon）
+}
+
+export function findNearestTown(
+  lon: number,
+  lat: number,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>
+): PointTown | null {
+  let nearest: PointTown | null = null;
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const [district, data] of Object.entries(districts)) {
+      const townDistance = distance([lon, lat], [data.lon, data.lat], { units: 'kilometers' });
+      if (!nearest || townDistance < nearest.distance) {
+        nearest = { code: data.code, name: `${city}${district}`, distance: townDistance };
       }
     }
-    
-    // 決定是否匹配和匹配原因
-    matched = matchedByTitle || matchedByCode || matchedByPolygon;
+  }
+  return nearest;
+}
+
+// 列出涵蓋查詢點的通知：多邊形通知以點是否在多邊形內判斷，只有代碼的通知以所在鄉鎮判斷
+export function findNotificationsAtPoint(
+  notifications: NotificationRecord[],
+  lon: number,
+  lat: number,
+  regionData: Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>
+): { town: PointTown | null; matches: PointMatch[] } {
+  const town = findNearestTown(lon, lat, regionData);
+  const matches: PointMatch[] = [];
 
-    if (matched) {
-      matchedNotifications.push(notification);
+  for (const notification of notifications) {
+    const polygonIndex = notification.Polygons.findIndex(geometry => isPointInGeometry(lon, lat, geometry));
+    if (polygonIndex !== -1) {
+      matches.push({ notification, reason: 'polygon', polygonIndex });
+    } else if (town && notification.codes.includes(town.code)) {
+      matches.push({ notification, reason: 'code', polygonIndex: null });
+    } else if (matchNotificationToRegions(notification, regionData, regionMatches).isNationwide) {
+      matches.push({ notification, reason: 'nationwide', polygonIndex: null });
     }
-  });
-    
-  return matchedNotifications;
-}
+  }
 
-export { extractNotificationType };
\ No newline at end of file
+  return { town, matches };
+}
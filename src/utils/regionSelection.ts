@@ -0,0 +1,229 @@
+import { bbox, booleanIntersects, booleanPointInPolygon, circle, point } from '@turf/turf';
+import { NotificationRecord, PolygonGeometry } from '@/types/notify';
+import {
+  filterNotificationsByRegionName,
+  getMatchedRegionCodes,
+  matchNotificationToRegions,
+  RegionMatchOptions,
+  RegionMatchResult
+} from '@/utils/regionMatcher';
+
+type RegionDataRecord = Record<string, Record<string, { code: number; lat: number; lon: number; site: number; area: string }>>;
+
+// 特殊地區篩選（非縣市或鄉鎮名稱）
+export const NATIONWIDE_REGION = '全部(不指定地區的全部用戶廣播通知)';
+export const OTHER_REGION = '其他地區';
+export const UNKNOWN_REGION = '未知區域廣播';
+
+export const SPECIAL_REGIONS: Array<{ value: string; label: string }> = [
+  { value: NATIONWIDE_REGION, label: '📢 全國廣播' },
+  { value: OTHER_REGION, label: '其他地區' },
+  { value: UNKNOWN_REGION, label: '未知區域廣播' }
+];
+
+// 在地圖上繪製的篩選範圍：多邊形（外環，不含重複的起點）或圓形（半徑單位為公里）
+export type SelectionArea =
+  | { type: 'polygon'; coordinates: [number, number][] }
+  | { type: 'circle'; center: [number, number]; radius: number };
+
+export type SelectionDrawMode = SelectionArea['type'];
+
+// 多個地區與繪製範圍之間為聯集：符合任一地區或影響繪製範圍的通知都會顯示
+export interface RegionSelection {
+  regions: string[];
+  area: SelectionArea | null;
+}
+
+export function isRegionSelectionEmpty(selection: RegionSelection | null | undefined): boolean {
+  return !selection || (selection.regions.length === 0 && !selection.area);
+}
+
+// 座標保留 4 位小數（約 10 公尺），避免 URL 過長
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+// region 參數：以逗號分隔的地區名稱；舊版連結為單一個經過 encodeURIComponent 的名稱
+export function parseRegionParam(value: string | null): string[] {
+  if (!value) return [];
+
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    // 非編碼過的字串直接使用
+  }
+
+  return Array.from(new Set(decoded.split(',').map(region => region.trim()).filter(Boolean)));
+}
+
+export function serializeRegionParam(regions: string[]): string | null {
+  return regions.length > 0 ? regions.join(',') : null;
+}
+
+// area 參數：polygon:lon,lat;lon,lat;... 或 circle:lon,lat,radiusKm
+export function parseAreaParam(value: string | null): SelectionArea | null {
+  if (!value) return null;
+
+  const [type, data = ''] = value.split(':');
+  if (type === 'polygon') {
+    const coordinates = data.split(';').map(pair => pair.split(',').map(Number));
+    if (coordinates.length < 3 || coordinates.some(pair => pair.length !== 2 || pair.some(n => !Number.isFinite(n)))) {
+      return null;
+    }
+    return { type: 'polygon', coordinates: coordinates as [number, number][] };
+  }
+
+  if (type === 'circle') {
+    const [lon, lat, radius] = data.split(',').map(Number);
+    if (![lon, lat, radius].every(Number.isFinite) || radius <= 0) {
+      return null;
+    }
+    return { type: 'circle', center: [lon, lat], radius };
+  }
+
+  return null;
+}
+
+export function serializeAreaParam(area: SelectionArea): string {
+  if (area.type === 'circle') {
+    return `circle:${formatCoordinate(area.center[0])},${formatCoordinate(area.center[1])},${Number(area.radius.toFixed(2))}`;
+  }
+  return `polygon:${area.coordinates.map(([lon, lat]) => `${formatCoordinate(lon)},${formatCoordinate(lat)}`).join(';')}`;
+}
+
+// 轉為封閉的 GeoJSON 多邊形（圓形以 64 邊形近似）
+export function getSelectionAreaGeometry(area: SelectionArea): PolygonGeometry {
+  if (area.type === 'circle') {
+    return circle(area.center, area.radius, { steps: 64, units: 'kilometers' }).geometry as PolygonGeometry;
+  }
+  return {
+    type: 'Polygon',
+    coordinates: [[...area.coordinates, area.coordinates[0]]]
+  };
+}
+
+// 地區選擇的顯示文字
+export function formatRegionSelection(selection: RegionSelection): string {
+  const labels = selection.regions.map(region =>
+    SPECIAL_REGIONS.find(special => special.value === region)?.label ?? region
+  );
+  if (selection.area) {
+    labels.push(selection.area.type === 'circle'
+      ? `圓形範圍 ${Number(selection.area.radius.toFixed(1))} km`
+      : '自訂範圍');
+  }
+  return labels.length > 2 ? `${labels.slice(0, 2).join('、')} 等 ${labels.length} 項` : labels.join('、');
+}
+
+// 單一地區的篩選，特殊地區依通知的代碼與多邊形判斷
+export function filterNotificationsBySingleRegion(
+  notifications: NotificationRecord[],
+  region: string,
+  regionData: RegionDataRecord,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions
+): NotificationRecord[] {
+  // 全國廣播：無codes和polygons，或codes不包含數字（非{topic}-{region code}格式）
+  if (region === NATIONWIDE_REGION) {
+    return notifications.filter(n => {
+      if (n.codes.length === 0 && n.Polygons.length === 0) return true;
+      if (n.codes.length > 0 && n.Polygons.length === 0) {
+        return !n.codes.some(code => /\d+/.test(String(code)));
+      }
+      return false;
+    });
+  }
+
+  // 其他地區：有地區代碼但無法匹配的通知
+  if (region === OTHER_REGION) {
+    return notifications.filter(notification => {
+      if (notification.codes.length === 0) return false;
+
+      // 檢查是否有數字格式的地區代碼但無法匹配
+      const hasRegionCode = notification.codes.some(code => /\d+/.test(String(code)));
+      if (!hasRegionCode) return false;
+
+      // 檢查是否匹配任何已知地區
+      const hasMatch = notification.codes.some(code => {
+        return Object.values(regionData).some(districts =>
+          Object.values(districts).some(data => data.code === code)
+        );
+      }) || Object.keys(regionData).some(city => notification.title.includes(city));
+
+      return !hasMatch;
+    });
+  }
+
+  // 未知區域廣播：有多邊形但無已知地區匹配
+  if (region === UNKNOWN_REGION) {
+    return notifications.filter(notification => {
+      return notification.Polygons.length > 0 &&
+             !Object.keys(regionData).some(city => notification.title.includes(city));
+    });
+  }
+
+  // 一般地區篩選
+  return filterNotificationsByRegionName(notifications, region, regionData, regionMatches, options);
+}
+
+// 建立判斷通知是否影響繪製範圍的函式：多邊形通知以幾何相交判斷，只有代碼的通知以鄉鎮中心點是否在範圍內判斷
+export function createSelectionAreaMatcher(
+  area: SelectionArea,
+  regionData: RegionDataRecord,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions
+): (notification: NotificationRecord) => boolean {
+  const areaGeometry = getSelectionAreaGeometry(area);
+  const [minLon, minLat, maxLon, maxLat] = bbox(areaGeometry);
+
+  const townCodesInArea = new Set<number>();
+  for (const districts of Object.values(regionData)) {
+    for (const data of Object.values(districts)) {
+      if (booleanPointInPolygon(point([data.lon, data.lat]), areaGeometry)) {
+        townCodesInArea.add(data.code);
+      }
+    }
+  }
+
+  return notification => {
+    if (notification.Polygons.length > 0) {
+      return notification.Polygons.some(geometry => {
+        // 先以外框排除明顯不相交的多邊形
+        const [west, south, east, north] = bbox(geometry);
+        if (west > maxLon || east < minLon || south > maxLat || north < minLat) return false;
+        return booleanIntersects(geometry, areaGeometry);
+      });
+    }
+
+    const matchResult = matchNotificationToRegions(notification, regionData, regionMatches);
+    return [...getMatchedRegionCodes(matchResult, options)].some(code => townCodesInArea.has(code));
+  };
+}
+
+// 依地區選擇篩選通知，保留原本的順序
+export function filterNotificationsByRegionSelection(
+  notifications: NotificationRecord[],
+  selection: RegionSelection,
+  regionData: RegionDataRecord,
+  regionMatches: ReadonlyMap<string, RegionMatchResult>,
+  options: RegionMatchOptions
+): NotificationRecord[] {
+  const matchedIds = new Set<string>();
+
+  for (const region of selection.regions) {
+    filterNotificationsBySingleRegion(notifications, region, regionData, regionMatches, options)
+      .forEach(notification => matchedIds.add(notification.id));
+  }
+
+  if (selection.area) {
+    const affectsArea = createSelectionAreaMatcher(selection.area, regionData, regionMatches, options);
+    notifications.forEach(notification => {
+      if (!matchedIds.has(notification.id) && affectsArea(notification)) {
+        matchedIds.add(notification.id);
+      }
+    });
+  }
+
+  return notifications.filter(notification => matchedIds.has(notification.id));
+}
@@ -0,0 +1,240 @@
+import { NotificationRecord } from '@/types/notify';
+
+// 可指定的搜尋欄位（title:、body: 前綴）
+export type SearchField = 'title' | 'body';
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'body'];
+
+export interface SearchTerm {
+  text: string; // 已正規化的搜尋文字
+  phrase: boolean; // 以引號包住的片語（可包含空白）
+  exclude: boolean; // 以 - 開頭，排除包含該文字的通知
+  field: SearchField | null; // null 表示標題或內文皆可
+}
+
+// 以倒排索引搜尋通知的標題與內文
+export interface SearchIndex {
+  readonly size: number;
+  // 回傳符合所有條件的通知識別碼；沒有任何條件時回傳 null
+  search(terms: SearchTerm[]): Set<string> | null;
+}
+
+// 中日韓文字（含擴充區與相容字）
+const CJK_PATTERN = /[㐀-䶿一-鿿豈-﫿]/;
+
+// 正規化單一字元：全形轉半形、轉小寫、臺統一為台；長度改變的字元保留原樣，讓高亮位置與原文對應
+function normalizeChar(char: string): string {
+  const normalized = char.normalize('NFKC').toLowerCase().replace('臺', '台');
+  return normalized.length === char.length ? normalized : char.toLowerCase();
+}
+
+export function normalizeSearchText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    result += normalizeChar(char);
+  }
+  return result;
+}
+
+// 將已正規化的文字切成索引詞：中文取單字與相鄰兩字（bigram），其他文字取英數字詞
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let word = '';
+  let previousCjk: string | null = null;
+
+  const flushWord = () => {
+    if (word) tokens.push(word);
+    word = '';
+  };
+
+  for (const char of text) {
+    if (CJK_PATTERN.test(char)) {
+      flushWord();
+      tokens.push(char);
+      if (previousCjk) tokens.push(previousCjk + char);
+      previousCjk = char;
+    } else if (/[\p{L}\p{N}]/u.test(char)) {
+      previousCjk = null;
+      word += char;
+    } else {
+      previousCjk = null;
+      flushWord();
+    }
+  }
+  flushWord();
+
+  return tokens;
+}
+
+// 查詢時只需要最少的索引詞：已被 bigram 涵蓋的中文單字不必再查
+function tokenizeQuery(text: string): string[] {
+  const tokens = tokenize(text);
+  const bigrams = tokens.filter(token => token.length === 2 && CJK_PATTERN.test(token));
+  return tokens.filter(token =>
+    !(token.length === 1 && CJK_PATTERN.test(token) && bigrams.some(bigram => bigram.includes(token)))
+  );
+}
+
+const EMPTY_FIELD_PREFIX_PATTERN = /^(title|body):$/i;
+
+// 解析搜尋字串：支援 "片語"、-排除、title:／body: 欄位前綴，各條件之間為 AND
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /(-?)(?:(title|body):)?(?:"([^"]*)"?|(\S+))/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const [, minus, field, phrase, word] = match;
+    const text = normalizeSearchText((phrase ?? word ?? '').replace(/"/g, '')).trim();
+    // 只輸入 - 或沒有內容的欄位前綴時，視為尚未輸入完成的條件
+    if (!text || (!phrase && text === '-')) continue;
+    if (!field && word && EMPTY_FIELD_PREFIX_PATTERN.test(word)) continue;
+
+    terms.push({
+      text,
+      phrase: phrase !== undefined,
+      exclude: minus === '-',
+      field: field ? field.toLowerCase() as SearchField : null
+    });
+  }
+
+  return terms;
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  return new Set([...smaller].filter(id => larger.has(id)));
+}
+
+export function createSearchIndex(notifications: NotificationRecord[]): SearchIndex {
+  // 各欄位的倒排索引：索引詞 → 通知識別碼
+  const postings: Record<SearchField, Map<string, Set<string>>> = {
+    title: new Map(),
+    body: new Map()
+  };
+  // 正規化後的原文，用於確認候選通知確實包含完整的搜尋文字
+  const documents = new Map<string, Record<SearchField, string>>();
+
+  for (const notification of notifications) {
+    const document = {
+      title: normalizeSearchText(notification.title),
+      body: normalizeSearchText(notification.body)
+    };
+    documents.set(notification.id, document);
+
+    for (const field of SEARCH_FIELDS) {
+      for (const token of tokenize(document[field])) {
+        let ids = postings[field].get(token);
+        if (!ids) {
+          ids = new Set();
+          postings[field].set(token, ids);
+        }
+        ids.add(notification.id);
+      }
+    }
+  }
+
+  // 英數字詞允許部分比對，合併所有包含該字串的索引詞
+  const getPostings = (field: SearchField, token: string): Set<string> => {
+    const exact = postings[field].get(token);
+    if (CJK_PATTERN.test(token)) return exact ?? new Set();
+
+    const ids = new Set(exact);
+    for (const [key, keyIds] of postings[field]) {
+      if (key !== token && key.includes(token)) {
+        keyIds.forEach(id => ids.add(id));
+      }
+    }
+    return ids;
+  };
+
+  // 以索引詞縮小候選範圍後，再以原文確認
+  const findTerm = (term: SearchTerm): Set<string> => {
+    const ids = new Set<string>();
+    const tokens = tokenizeQuery(term.text);
+
+    for (const field of term.field ? [term.field] : SEARCH_FIELDS) {
+      let candidates: Set<string> | null = null;
+      for (const token of tokens) {
+        const tokenIds = getPostings(field, token);
+        candidates = candidates === null ? tokenIds : intersect(candidates, tokenIds);
+        if (candidates.size === 0) break;
+      }
+
+      // 只有符號的搜尋文字無法使用索引，直接比對原文
+      const candidateIds = candidates ?? documents.keys();
+      for (const id of candidateIds) {
+        if (documents.get(id)![field].includes(term.text)) {
+          ids.add(id);
+        }
+      }
+    }
+
+    return ids;
+  };
+
+  const search = (terms: SearchTerm[]): Set<string> | null => {
+    if (terms.length === 0) return null;
+
+    const includes = terms.filter(term => !term.exclude);
+    const excludes = terms.filter(term => term.exclude);
+
+    let result: Set<string>;
+    if (includes.length === 0) {
+      // 只有排除條件時從全部通知開始
+      result = new Set(documents.keys());
+    } else {
+      result = findTerm(includes[0]);
+      for (const term of includes.slice(1)) {
+        if (result.size === 0) break;
+        result = intersect(result, findTerm(term));
+      }
+    }
+
+    for (const term of excludes) {
+      if (result.size === 0) break;
+      findTerm(term).forEach(id => result.delete(id));
+    }
+
+    return result;
+  };
+
+  return {
+    size: documents.size,
+    search
+  };
+}
+
+// 取得文字中符合搜尋條件的位置（[起點, 終點)），已合併重疊區段
+export function getSearchHighlightRanges(
+  text: string,
+  terms: SearchTerm[],
+  field: SearchField
+): Array<[number, number]> {
+  const normalized = normalizeSearchText(text);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    if (term.exclude || (term.field && term.field !== field)) continue;
+
+    let index = normalized.indexOf(term.text);
+    while (index !== -1) {
+      ranges.push([index, index + term.text.length]);
+      index = normalized.indexOf(term.text, index + term.text.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,131 @@
+import type { PropertyValueSpecification } from 'maplibre-gl';
+import { createMatchExpression } from '@/utils/mapExpression';
+import { NotificationRecord } from '@/types/notify';
+import { NotificationSeverity } from '@/utils/notificationCategory';
+import { compareSeverity, getNotificationSeverity } from '@/utils/notificationPalette';
+
+// 播放速度：每秒前進的秒數，值同時用於 URL 參數
+export const PLAYBACK_SPEEDS: Array<{ value: number; label: string }> = [
+  { value: 60, label: '1 分鐘/秒' },
+  { value: 600, label: '10 分鐘/秒' },
+  { value: 3600, label: '1 小時/秒' },
+  { value: 21600, label: '6 小時/秒' }
+];
+
+export const DEFAULT_PLAYBACK_SPEED = 600;
+
+// 通知出現後淡出所需的播放秒數（實際經過的秒數，與速度無關）
+export const PLAYBACK_FADE_SECONDS = 3;
+
+export interface TimelinePlaybackOptions {
+  enabled: boolean;
+  speed: number;
+  frames: number[]; // 關鍵影格的時間戳記（已排序）
+}
+
+export const DEFAULT_TIMELINE_PLAYBACK_OPTIONS: TimelinePlaybackOptions = {
+  enabled: false,
+  speed: DEFAULT_PLAYBACK_SPEED,
+  frames: []
+};
+
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+// 單一時間點的畫面：正在顯示的多邊形與鄉鎮代碼，以及各自的不透明度與嚴重程度
+export interface PlaybackFrame {
+  time: number;
+  polygons: GeoJSON.FeatureCollection;
+  codeOpacity: Map<number, number>;
+  codeSeverity: Map<number, NotificationSeverity>;
+  activeCount: number;
+}
+
+export function getPlaybackFadeDuration(speed: number): number {
+  return speed * PLAYBACK_FADE_SECONDS * 1000;
+}
+
+// 依時間排序（由舊到新），供二分搜尋使用
+export function sortNotificationsForPlayback(notifications: NotificationRecord[]): NotificationRecord[] {
+  return [...notifications].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// 播放範圍：第一則到最後一則通知，停在結尾時保留最後發送的通知
+export function getPlaybackRange(sorted: NotificationRecord[]): PlaybackRange | null {
+  if (sorted.length === 0) return null;
+  return {
+    start: sorted[0].timestamp,
+    end: sorted[sorted.length - 1].timestamp
+  };
+}
+
+// 第一則時間晚於 time 的通知索引
+function upperBound(sorted: NotificationRecord[], time: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid].timestamp <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// 取得 time 時正在顯示的通知：發送當下完全不透明，之後線性淡出
+export function getPlaybackFrame(sorted: NotificationRecord[], time: number, speed: number): PlaybackFrame {
+  const fadeDuration = getPlaybackFadeDuration(speed);
+  const features: GeoJSON.Feature[] = [];
+  const codeOpacity = new Map<number, number>();
+  const codeSeverity = new Map<number, NotificationSeverity>();
+  let activeCount = 0;
+
+  for (let i = upperBound(sorted, time) - 1; i >= 0; i--) {
+    const notification = sorted[i];
+    const age = time - notification.timestamp;
+    if (age >= fadeDuration) break;
+
+    const opacity = 1 - age / fadeDuration;
+    const severity = getNotificationSeverity(notification);
+    activeCount++;
+
+    notification.Polygons.forEach(geometry => {
+      features.push({
+        type: 'Feature',
+        properties: { id: notification.id, severity, opacity },
+        geometry
+      });
+    });
+
+    // 同一鄉鎮有多則通知時取最不透明的，顏色取最嚴重的
+    notification.codes.forEach(code => {
+      codeOpacity.set(code, Math.max(codeOpacity.get(code) ?? 0, opacity));
+      const current = codeSeverity.get(code);
+      if (!current || compareSeverity(severity, current) > 0) codeSeverity.set(code, severity);
+    });
+  }
+
+  return {
+    time,
+    polygons: { type: 'FeatureCollection', features },
+    codeOpacity,
+    codeSeverity,
+    activeCount
+  };
+}
+
+// 鄉鎮填色不透明度的 match 運算式
+export function getCodeOpacityExpression(
+  codeOpacity: Map<number, number>,
+  maxOpacity: number
+): PropertyValueSpecification<number> {
+  return createMatchExpression(
+    'CODE',
+    [...codeOpacity].map(([code, opacity]) => [code, opacity * maxOpacity]),
+    0
+  );
+}
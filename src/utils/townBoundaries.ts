@@ -0,0 +1,173 @@
+import { feature, merge } from 'topojson-client';
+import { area, bbox, featureCollection, intersect } from '@turf/turf';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import type { GeometryCollection, MultiPolygon as TopoMultiPolygon, Polygon as TopoPolygon, Topology } from 'topojson-specification';
+import { NotificationGeometry } from '@/types/notify';
+import type { RegionData } from '@/hooks/useRegionData';
+import type { TownBounds } from '@/utils/townBounds';
+
+// public/town-boundaries.json 的鄉鎮屬性（由 scripts/generate-town-boundaries.ts 產生）
+export interface TownBoundaryProperties {
+  code: number;
+  name: string;
+}
+
+export type TownBoundaryTopology = Topology<{ towns: GeometryCollection<TownBoundaryProperties> }>;
+
+export interface TownOverlap {
+  code: number;
+  name: string;
+  area: number; // 重疊面積（平方公尺）
+  percentage: number; // 佔通知範圍面積的百分比
+}
+
+export interface TownIntersection {
+  area: number; // 通知範圍面積（平方公尺）
+  towns: TownOverlap[]; // 依重疊面積由大到小排序
+}
+
+// 以實際鄉鎮界線計算通知範圍與各鄉鎮的重疊
+export interface TownBoundaryIndex {
+  readonly size: number;
+  intersect(geometry: NotificationGeometry): TownIntersection;
+}
+
+type TownFeature = Feature<Polygon | MultiPolygon, TownBoundaryProperties>;
+
+export function createTownBoundaryIndex(topology: TownBoundaryTopology): TownBoundaryIndex {
+  const collection = feature(topology, topology.objects.towns) as FeatureCollection<Polygon | MultiPolygon, TownBoundaryProperties>;
+  const towns = collection.features.map((town: TownFeature) => ({ town, bounds: bbox(town) }));
+
+  const intersectGeometry = (geometry: NotificationGeometry): TownIntersection => {
+    const alert: Feature<Polygon | MultiPolygon> = { type: 'Feature', properties: {}, geometry };
+    const alertArea = area(alert);
+    if (!(alertArea > 0)) {
+      return { area: 0, towns: [] };
+    }
+
+    const [minLon, minLat, maxLon, maxLat] = bbox(alert);
+    const overlaps: TownOverlap[] = [];
+
+    for (const { town, bounds } of towns) {
+      // 先以外框排除不可能重疊的鄉鎮
+      if (bounds[0] > maxLon || bounds[2] < minLon || bounds[1] > maxLat || bounds[3] < minLat) continue;
+
+      let overlap: Feature<Polygon | MultiPolygon> | null;
+      try {
+        overlap = intersect(featureCollection([alert, town]));
+      } catch (err) {
+        // 自相交等無效幾何無法計算交集，略過該鄉鎮
+        console.warn(`無法計算與 ${town.properties.name} 的交集:`, err);
+        continue;
+      }
+      if (!overlap) continue;
+
+      const overlapArea = area(overlap);
+      if (overlapArea <= 0) continue;
+
+      overlaps.push({
+        code: town.properties.code,
+        name: town.properties.name,
+        area: overlapArea,
+        percentage: (overlapArea / alertArea) * 100
+      });
+    }
+
+    overlaps.sort((a, b) => b.area - a.area);
+    return { area: alertArea, towns: overlaps };
+  };
+
+  return {
+    size: towns.length,
+    intersect: intersectGeometry
+  };
+}
+
+// 離線底圖使用的行政區界線，屬性與向量圖磚的 town 圖層一致（CODE 為地區代碼）
+export interface BoundaryFeatureCollections {
+  town: FeatureCollection<Polygon | MultiPolygon, { CODE: number; NAME: string }>;
+  county: FeatureCollection<MultiPolygon, { NAME: string }>;
+}
+
+// 座標保留小數 5 位（約 1 公尺），減少傳輸大小
+function roundCoordinates<T>(coordinates: T): T {
+  if (typeof coordinates === 'number') return (Math.round(coordinates * 1e5) / 1e5) as T;
+  return (coordinates as unknown[]).map(roundCoordinates) as T;
+}
+
+function roundGeometry<G extends Polygon | MultiPolygon>(geometry: G): G {
+  return { ...geometry, coordinates: roundCoordinates(geometry.coordinates) };
+}
+
+// 由鄉鎮界線產生鄉鎮與縣市圖層，縣市界線為同一縣市鄉鎮的合併
+export function createBoundaryFeatureCollections(
+  topology: TownBoundaryTopology,
+  regionData: RegionData
+): BoundaryFeatureCollections {
+  const cityByCode = new Map<number, string>();
+  for (const [city, districts] of Object.entries(regionData)) {
+    for (const data of Object.values(districts)) {
+      cityByCode.set(data.code, city);
+    }
+  }
+
+  const collection = feature(topology, topology.objects.towns) as FeatureCollection<Polygon | MultiPolygon, TownBoundaryProperties>;
+  const town: BoundaryFeatureCollections['town'] = {
+    type: 'FeatureCollection',
+    features: collection.features.map(({ geometry, properties }) => ({
+      type: 'Feature',
+      properties: { CODE: properties.code, NAME: properties.name },
+      geometry: roundGeometry(geometry)
+    }))
+  };
+
+  const geometriesByCity = new Map<string, Array<TopoPolygon | TopoMultiPolygon>>();
+  for (const geometry of topology.objects.towns.geometries) {
+    if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') continue;
+    const code = (geometry.properties as TownBoundaryProperties | undefined)?.code;
+    const city = code !== undefined ? cityByCode.get(code) : undefined;
+    if (!city) continue;
+    geometriesByCity.set(city, [...(geometriesByCity.get(city) ?? []), geometry]);
+  }
+
+  const county: BoundaryFeatureCollections['county'] = {
+    type: 'FeatureCollection',
+    features: [...geometriesByCity].map(([city, geometries]) => ({
+      type: 'Feature',
+      properties: { NAME: city },
+      geometry: roundGeometry(merge(topology, geometries))
+    }))
+  };
+
+  return { town, county };
+}
+
+// 外框向外取到小數 4 位（約 10 公尺），確保完整包含鄉鎮
+function roundBoundsOutward([minLon, minLat, maxLon, maxLat]: number[]): TownBounds {
+  return [
+    Math.floor(minLon * 1e4) / 1e4,
+    Math.floor(minLat * 1e4) / 1e4,
+    Math.ceil(maxLon * 1e4) / 1e4,
+    Math.ceil(maxLat * 1e4) / 1e4
+  ];
+}
+
+// 各鄉鎮代碼的外框表；沒有界線的鄉鎮以 region.json 的中心點代替
+export function createTownBoundsTable(topology: TownBoundaryTopology, regionData: RegionData): Record<string, TownBounds> {
+  const collection = feature(topology, topology.objects.towns) as FeatureCollection<Polygon | MultiPolygon, TownBoundaryProperties>;
+  const table: Record<string, TownBounds> = {};
+
+  for (const town of collection.features) {
+    table[town.properties.code] = roundBoundsOutward(bbox(town));
+  }
+
+  for (const districts of Object.values(regionData)) {
+    for (const data of Object.values(districts)) {
+      if (!table[data.code]) {
+        table[data.code] = [data.lon, data.lat, data.lon, data.lat];
+      }
+    }
+  }
+
+  return table;
+}
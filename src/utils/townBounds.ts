@@ -0,0 +1,29 @@
+import townBoundsTable from '@/config/town-bounds.json';
+
+// 鄉鎮外框 [minLon, minLat, maxLon, maxLat]
+export type TownBounds = [number, number, number, number];
+
+// 各鄉鎮代碼的外框（由 scripts/generate-town-boundaries.ts 產生），不受地圖圖磚載入狀態影響
+// JSON 的陣列只能推斷為 number[]，載入時轉為固定長度的外框
+const townBoundsEntries: Record<string, number[]> = townBoundsTable;
+export const TOWN_BOUNDS: Record<string, TownBounds> = Object.fromEntries(
+  Object.entries(townBoundsEntries).map(([code, [minLon, minLat, maxLon, maxLat]]): [string, TownBounds] =>
+    [code, [minLon, minLat, maxLon, maxLat]]
+  )
+);
+
+// 合併多個外框，沒有任何外框時回傳 null
+export function unionBounds(boundsList: TownBounds[]): TownBounds | null {
+  if (boundsList.length === 0) return null;
+  return boundsList.reduce((union, bounds) => [
+    Math.min(union[0], bounds[0]),
+    Math.min(union[1], bounds[1]),
+    Math.max(union[2], bounds[2]),
+    Math.max(union[3], bounds[3])
+  ]);
+}
+
+// 多個鄉鎮代碼的聯集外框，略過表中沒有的代碼
+export function getTownCodesBounds(codes: number[], table: Record<string, TownBounds> = TOWN_BOUNDS): TownBounds | null {
+  return unionBounds(codes.flatMap(code => table[code] ? [table[code]] : []));
+}
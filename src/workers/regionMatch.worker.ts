@@ -0,0 +1,207 @@
+/* 地區匹配 Worker：在背景載入網格矩陣（與精確模式的鄉鎮界線），計算多邊形通知對應的鄉鎮 */
+
+import {
+  clearRegionMatcherCache,
+  computeNotificationRegions,
+  diagnoseNotificationRegions,
+  RegionMatchMode,
+  RegionMatchResult
+} from '@/utils/regionMatcher';
+import { getCacheMeta, setCacheMeta } from '@/lib/idb-cache';
+import { createGridIndex, GridIndex } from '@/utils/gridIndex';
+import { createTownBoundaryIndex, TownBoundaryIndex, TownBoundaryTopology } from '@/utils/townBoundaries';
+import type { RegionData } from '@/hooks/useRegionData';
+import type { NotificationRecord } from '@/types/notify';
+import type { RegionWorkerRequest, RegionWorkerResponse } from '@/types/regionWorker';
+
+const GRID_MATRIX_URL = 'https://raw.githubusercontent.com/ExpTechTW/dpip-notify-map/refs/heads/main/public/grid-matrix.json';
+
+// 精確模式使用的鄉鎮界線（由 scripts/generate-town-boundaries.ts 產生）
+const TOWN_BOUNDARIES_URL = '/town-boundaries.json';
+
+// IndexedDB 中的網格快取，以 region.json 的版本作為失效依據
+const GRID_MATRIX_CACHE_KEY = 'gridMatrix';
+
+interface CachedGridMatrix {
+  regionVersion: string;
+  matrix: Map<string, number>;
+  cachedAt: number;
+}
+
+// 每批計算的通知數量，批次之間讓出執行緒以處理取消訊息並回報進度
+const CHUNK_SIZE = 20;
+
+let regionData: RegionData | null = null;
+let regionVersion: string | null = null;
+let matchMode: RegionMatchMode | null = null;
+let gridIndexPromise: Promise<GridIndex> | null = null;
+let townBoundariesPromise: Promise<TownBoundaryIndex> | null = null;
+let jobQueue: Promise<void> = Promise.resolve();
+const cancelledJobs = new Set<number>();
+
+function post(message: RegionWorkerResponse) {
+  postMessage(message);
+}
+
+// region.json 未變更時沿用 IndexedDB 中的網格，否則重新下載
+async function loadGridMatrix(version: string): Promise<Map<string, number>> {
+  const cached = await getCacheMeta<CachedGridMatrix>(GRID_MATRIX_CACHE_KEY);
+  if (cached && cached.regionVersion === version) {
+    post({ type: 'ready', regionVersion: version, gridSize: cached.matrix.size, fromCache: true });
+    return cached.matrix;
+  }
+
+  const res = await fetch(GRID_MATRIX_URL);
+  if (!res.ok) {
+    throw new Error(`Failed to load grid matrix: ${res.status}`);
+  }
+
+  const data: Record<string, number> = await res.json();
+  const matrix = new Map<string, number>(Object.entries(data));
+
+  setCacheMeta<CachedGridMatrix>(GRID_MATRIX_CACHE_KEY, {
+    regionVersion: version,
+    matrix,
+    cachedAt: Date.now()
+  });
+
+  post({ type: 'ready', regionVersion: version, gridSize: matrix.size, fromCache: false });
+  return matrix;
+}
+
+async function loadTownBoundaries(): Promise<TownBoundaryIndex> {
+  const res = await fetch(TOWN_BOUNDARIES_URL);
+  if (!res.ok) {
+    throw new Error(`Failed to load town boundaries: ${res.status}`);
+  }
+
+  const topology: TownBoundaryTopology = await res.json();
+  return createTownBoundaryIndex(topology);
+}
+
+function reportLoadError(label: string) {
+  return (err: unknown) => {
+    console.error(`載入${label}失敗:`, err);
+    post({ type: 'error', jobId: null, message: err instanceof Error ? err.message : `載入${label}失敗` });
+  };
+}
+
+// 載入失敗時重置 promise，下一次工作會重新載入
+function getGridIndex(): Promise<GridIndex> | null {
+  if (!regionVersion) return null;
+  if (!gridIndexPromise) {
+    const promise = loadGridMatrix(regionVersion).then(matrix => createGridIndex(matrix));
+    gridIndexPromise = promise;
+    promise.catch(err => {
+      if (gridIndexPromise === promise) gridIndexPromise = null;
+      reportLoadError('網格矩陣')(err);
+    });
+  }
+  return gridIndexPromise;
+}
+
+function getTownBoundaries(): Promise<TownBoundaryIndex> | null {
+  if (matchMode !== 'exact') return null;
+  if (!townBoundariesPromise) {
+    const promise = loadTownBoundaries();
+    townBoundariesPromise = promise;
+    promise.catch(err => {
+      if (townBoundariesPromise === promise) townBoundariesPromise = null;
+      reportLoadError('鄉鎮界線')(err);
+    });
+  }
+  return townBoundariesPromise;
+}
+
+function init(data: RegionData, version: string, mode: RegionMatchMode) {
+  regionData = data;
+  if (version === regionVersion && mode === matchMode) return;
+
+  // 模式或地區資料變更時，先前的匹配結果都不再適用
+  clearRegionMatcherCache();
+
+  if (version !== regionVersion) {
+    regionVersion = version;
+    gridIndexPromise = null;
+  }
+
+  matchMode = mode;
+  // 預先開始載入，不必等到第一個工作
+  getGridIndex();
+  getTownBoundaries();
+}
+
+function yieldToEventLoop() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function runJob(jobId: number, notifications: NotificationRecord[]) {
+  if (cancelledJobs.delete(jobId)) return;
+
+  const gridIndexLoad = getGridIndex();
+  if (!gridIndexLoad || !regionData) {
+    post({ type: 'error', jobId, message: 'Region worker is not initialized' });
+    return;
+  }
+
+  const startTime = performance.now();
+  const gridIndex = await gridIndexLoad;
+  const townBoundaries = await getTownBoundaries();
+  const total = notifications.length;
+
+  for (let i = 0; i < total; i += CHUNK_SIZE) {
+    if (cancelledJobs.delete(jobId)) return;
+
+    const matches: Array<[string, RegionMatchResult]> = notifications
+      .slice(i, i + CHUNK_SIZE)
+      .map(notification => [notification.id, computeNotificationRegions(notification, regionData!, gridIndex, townBoundaries)]);
+
+    post({ type: 'progress', jobId, completed: Math.min(i + CHUNK_SIZE, total), total, matches });
+    await yieldToEventLoop();
+  }
+
+  post({ type: 'done', jobId, duration: performance.now() - startTime });
+}
+
+// 診斷不排入佇列，選取通知時可立即回應
+async function runDiagnose(jobId: number, notification: NotificationRecord) {
+  const gridIndexLoad = getGridIndex();
+  if (!gridIndexLoad || !regionData) {
+    post({ type: 'error', jobId, message: 'Region worker is not initialized' });
+    return;
+  }
+
+  const gridIndex = await gridIndexLoad;
+  const townBoundaries = await getTownBoundaries();
+  const diagnostics = diagnoseNotificationRegions(notification, regionData, gridIndex, townBoundaries);
+
+  post({ type: 'diagnostics', jobId, diagnostics });
+}
+
+addEventListener('message', (event: MessageEvent<RegionWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      init(message.regionData, message.regionVersion, message.mode);
+      break;
+    case 'match':
+      // 依序處理，避免多個工作同時搶佔網格計算
+      jobQueue = jobQueue
+        .then(() => runJob(message.jobId, message.notifications))
+        .catch(err => {
+          console.error('地區匹配計算失敗:', err);
+          post({ type: 'error', jobId: message.jobId, message: err instanceof Error ? err.message : '地區匹配計算失敗' });
+        });
+      break;
+    case 'cancel':
+      cancelledJobs.add(message.jobId);
+      break;
+    case 'diagnose':
+      runDiagnose(message.jobId, message.notification).catch(err => {
+        console.error('地區匹配診斷失敗:', err);
+        post({ type: 'error', jobId: message.jobId, message: err instanceof Error ? err.message : '地區匹配診斷失敗' });
+      });
+      break;
+  }
+});